@@ -0,0 +1,306 @@
+import { Language } from "@googlemaps/google-maps-services-js";
+import fs from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import YAML from "yaml";
+import { CACHE_MODES, CacheConfig, CachedOperation, DEFAULT_CACHE_CONFIG, DEFAULT_CACHE_TTLS } from "./maps-tools/cache/index.js";
+import { DEFAULT_LIMITS_CONFIG, LimitsConfig, MAPS_APIS } from "./maps-tools/limits/index.js";
+import { LocaleOptions, parseLanguage, parseRegion } from "./maps-tools/locale.js";
+import { LOG_LEVELS, LogLevel } from "./maps-tools/logger.js";
+import { DEFAULT_PROVIDER_CONFIG, PROVIDER_NAMES, ProviderConfig } from "./maps-tools/providers/index.js";
+import { configureTools, ToolsConfig } from "./maps-tools/tools.js";
+
+export interface ServerConfig {
+  transport: "stdio" | "http";
+  host: string;
+  port: number;
+}
+
+/** Everything the server is configured with, resolved once at startup. */
+export interface Config {
+  provider: ProviderConfig;
+  /** Used when a tool call does not pass `language` or `region`. */
+  locale: LocaleOptions;
+  /** Default `units` of every tool that has the argument. */
+  units?: "metric" | "imperial";
+  tools: ToolsConfig;
+  cache: CacheConfig;
+  limits: LimitsConfig;
+  logLevel: LogLevel;
+  server: ServerConfig;
+}
+
+/** Startup configuration problems; the message lists every offending setting and where it came from. */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+/**
+ * A setting by its path in the config file, with the environment variable and command
+ * line flag that can set it as well. Flags win over the environment, which wins over the file.
+ */
+interface Setting {
+  path: string;
+  env?: string;
+  flag?: string;
+  description?: string;
+}
+
+const toEnvSuffix = (name: string) => name.replace(/[A-Z]/g, (c) => `_${c}`).toUpperCase();
+
+const CACHED_OPERATIONS = Object.keys(DEFAULT_CACHE_TTLS) as CachedOperation[];
+
+const SETTINGS: Setting[] = [
+  { path: "apiKey", env: "GOOGLE_MAPS_API_KEY", flag: "api-key", description: "Google Maps API key" },
+  { path: "provider", env: "MAPS_PROVIDER", flag: "provider", description: "Maps backend: google or fixture" },
+  { path: "fixturePath", env: "MAPS_FIXTURE_PATH", flag: "fixture-path", description: "Dataset of the fixture provider" },
+  { path: "timeoutMs", env: "MAPS_TIMEOUT_MS", flag: "timeout-ms", description: "Timeout of each Google request in milliseconds" },
+  { path: "language", env: "MAPS_LANGUAGE", flag: "language", description: "Default language, e.g. en or zh-TW" },
+  { path: "region", env: "MAPS_REGION", flag: "region", description: "Default region as a ccTLD code, e.g. tw" },
+  { path: "units", env: "MAPS_UNITS", flag: "units", description: "Default unit system: metric or imperial" },
+  { path: "logLevel", env: "MAPS_LOG_LEVEL", flag: "log-level", description: "debug, info, warn, error or silent" },
+  { path: "tools.enabled", env: "MAPS_TOOLS", flag: "tools", description: "Comma-separated tools to enable" },
+  { path: "tools.disabled", env: "MAPS_DISABLED_TOOLS", flag: "disabled-tools", description: "Comma-separated tools to disable" },
+  { path: "tools.defaults" },
+  { path: "cache.mode", env: "MAPS_CACHE", flag: "cache", description: "Response cache: memory, file or off" },
+  { path: "cache.path", env: "MAPS_CACHE_PATH", flag: "cache-path", description: "Cache file of the file cache" },
+  ...CACHED_OPERATIONS.map((operation) => ({ path: `cache.ttls.${operation}`, env: `MAPS_CACHE_TTL_${toEnvSuffix(operation)}` })),
+  { path: "limits.retries", env: "MAPS_RETRIES" },
+  { path: "limits.retryBaseDelayMs", env: "MAPS_RETRY_BASE_DELAY_MS" },
+  { path: "limits.retryMaxDelayMs", env: "MAPS_RETRY_MAX_DELAY_MS" },
+  ...MAPS_APIS.flatMap((api) => [
+    { path: `limits.rateLimits.${api}`, env: `MAPS_RATE_LIMIT_${toEnvSuffix(api)}` },
+    { path: `limits.budgets.${api}.daily`, env: `MAPS_BUDGET_DAILY_${toEnvSuffix(api)}` },
+    { path: `limits.budgets.${api}.monthly`, env: `MAPS_BUDGET_MONTHLY_${toEnvSuffix(api)}` },
+  ]),
+  { path: "server.transport", env: "MCP_TRANSPORT", flag: "transport", description: "stdio or http" },
+  { path: "server.host", env: "MCP_HOST", flag: "host", description: "Host the HTTP transport listens on" },
+  { path: "server.port", env: "MCP_PORT", flag: "port", description: "Port the HTTP transport listens on" },
+];
+
+const SETTING_PATHS = new Set(SETTINGS.map((setting) => setting.path));
+
+const FLAGS = SETTINGS.filter((setting) => setting.flag);
+
+export const USAGE = [
+  "Usage: mcp-google-map [options]",
+  "",
+  "Options override environment variables, which override the config file.",
+  "",
+  "  --config <file>".padEnd(30) + "JSON or YAML config file (MAPS_CONFIG)",
+  ...FLAGS.map((setting) => `  --${setting.flag} <value>`.padEnd(30) + `${setting.description} (${setting.env})`),
+  "  -h, --help".padEnd(30) + "Show this help",
+].join("\n");
+
+/** Where a value came from, for error messages; file values also carry the file's directory. */
+interface Entry {
+  value: unknown;
+  origin: string;
+  baseDir?: string;
+}
+
+type Parser<T> = (value: unknown, baseDir?: string) => T;
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null && !Array.isArray(value);
+
+const got = (value: unknown) => `, got ${JSON.stringify(value)}`;
+
+const text: Parser<string> = (value) => {
+  if (typeof value !== "string" || !value.trim()) throw new Error(`must be a non-empty string${got(value)}`);
+  return value.trim();
+};
+
+/** Relative paths in the config file are relative to the file. */
+const filePath: Parser<string> = (value, baseDir) => path.resolve(baseDir ?? ".", text(value));
+
+const oneOf =
+  <T extends string>(options: readonly T[]): Parser<T> =>
+  (value) => {
+    if (!options.includes(value as T)) throw new Error(`must be one of ${options.join(", ")}${got(value)}`);
+    return value as T;
+  };
+
+const number =
+  ({ integer = false, max }: { integer?: boolean; max?: number } = {}): Parser<number> =>
+  (value) => {
+    const parsed = typeof value === "string" && value.trim() ? Number(value) : value;
+    if (typeof parsed !== "number" || !Number.isFinite(parsed) || parsed < 0 || (integer && !Number.isInteger(parsed)) || (max !== undefined && parsed > max)) {
+      throw new Error(`must be a non-negative ${integer ? "integer" : "number"}${max !== undefined ? ` up to ${max}` : ""}${got(value)}`);
+    }
+    return parsed;
+  };
+
+/** A list, or comma-separated names from the environment or command line. */
+const list: Parser<string[]> = (value) => {
+  const items = typeof value === "string" ? value.split(",").map((item) => item.trim()) : value;
+  if (!Array.isArray(items) || !items.every((item) => typeof item === "string")) throw new Error(`must be a list of names${got(value)}`);
+  return items.filter(Boolean);
+};
+
+const toolDefaults: Parser<Record<string, Record<string, unknown>>> = (value) => {
+  if (!isObject(value) || !Object.values(value).every(isObject)) {
+    throw new Error("must map tool names to their argument defaults, e.g. { search_nearby: { radius: 500 } }");
+  }
+  return value as Record<string, Record<string, unknown>>;
+};
+
+function parseConfigFile(file: string): unknown {
+  let content: string;
+  try {
+    content = fs.readFileSync(file, "utf8");
+  } catch (error) {
+    throw new ConfigError(`Cannot read config file ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+  try {
+    if (/\.ya?ml$/i.test(file)) return YAML.parse(content);
+    if (/\.json$/i.test(file)) return JSON.parse(content);
+  } catch (error) {
+    throw new ConfigError(`Invalid config file ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+  throw new ConfigError(`Unsupported config file ${file}, expected a .json, .yaml or .yml file`);
+}
+
+/** Settings from the config file by path; unknown keys are reported rather than ignored. */
+function fileEntries(file: string, errors: string[]): Map<string, Entry> {
+  const data = parseConfigFile(file) ?? {};
+  const entries = new Map<string, Entry>();
+  const baseDir = path.dirname(path.resolve(file));
+
+  const walk = (object: Record<string, unknown>, prefix: string) => {
+    for (const [key, value] of Object.entries(object)) {
+      const settingPath = prefix ? `${prefix}.${key}` : key;
+      if (SETTING_PATHS.has(settingPath)) {
+        if (value !== null) entries.set(settingPath, { value, origin: `${settingPath} in ${file}`, baseDir });
+      } else if (![...SETTING_PATHS].some((known) => known.startsWith(`${settingPath}.`))) {
+        errors.push(`${settingPath} in ${file}: unknown setting`);
+      } else if (isObject(value)) {
+        walk(value, settingPath);
+      } else if (value !== null) {
+        errors.push(`${settingPath} in ${file}: must be an object`);
+      }
+    }
+  };
+
+  if (!isObject(data)) throw new ConfigError(`Invalid config file ${file}: expected an object of settings`);
+  walk(data, "");
+  return entries;
+}
+
+/** Parsed command line flags by name; `--help` is reported separately. */
+export function parseCommandLine(argv: string[]): { help: boolean; flags: Record<string, string | undefined> } {
+  try {
+    const { values } = parseArgs({
+      args: argv,
+      options: {
+        config: { type: "string" },
+        help: { type: "boolean", short: "h" },
+        ...Object.fromEntries(FLAGS.map((setting) => [setting.flag!, { type: "string" as const }])),
+      },
+    });
+    const { help, ...flags } = values;
+    return { help: Boolean(help), flags: flags as Record<string, string | undefined> };
+  } catch (error) {
+    throw new ConfigError(`${error instanceof Error ? error.message : error}\nRun with --help to list the options.`);
+  }
+}
+
+/**
+ * Resolves the configuration from command line `flags`, the environment and the config
+ * file named by `--config` or `MAPS_CONFIG`, in that order of precedence, and validates
+ * it. Throws a `ConfigError` listing every invalid setting.
+ */
+export function loadConfig(flags: Record<string, string | undefined>, env: NodeJS.ProcessEnv): Config {
+  const errors: string[] = [];
+  const configFile = flags.config || env.MAPS_CONFIG;
+  const entries = configFile ? fileEntries(configFile, errors) : new Map<string, Entry>();
+
+  for (const setting of SETTINGS) {
+    if (setting.env && env[setting.env]) entries.set(setting.path, { value: env[setting.env], origin: setting.env });
+    if (setting.flag && flags[setting.flag] !== undefined) entries.set(setting.path, { value: flags[setting.flag], origin: `--${setting.flag}` });
+  }
+
+  function get<T>(settingPath: string, parse: Parser<T>): T | undefined {
+    const entry = entries.get(settingPath);
+    if (!entry) return undefined;
+    try {
+      return parse(entry.value, entry.baseDir);
+    } catch (error) {
+      errors.push(`${entry.origin}: ${error instanceof Error ? error.message : error}`);
+      return undefined;
+    }
+  }
+
+  const provider: ProviderConfig = {
+    name: get("provider", oneOf(PROVIDER_NAMES)) ?? DEFAULT_PROVIDER_CONFIG.name,
+    apiKey: get("apiKey", text),
+    fixturePath: get("fixturePath", filePath),
+    timeoutMs: get("timeoutMs", number()) ?? DEFAULT_PROVIDER_CONFIG.timeoutMs,
+  };
+  if (provider.name === "google" && !provider.apiKey && !entries.has("apiKey")) {
+    errors.push("Google Maps API key is missing: set GOOGLE_MAPS_API_KEY, pass --api-key or add apiKey to the config file");
+  }
+
+  const cache: CacheConfig = {
+    mode: get("cache.mode", oneOf(CACHE_MODES)) ?? DEFAULT_CACHE_CONFIG.mode,
+    path: get("cache.path", filePath) ?? DEFAULT_CACHE_CONFIG.path,
+    ttls: {},
+  };
+  for (const operation of CACHED_OPERATIONS) {
+    const seconds = get(`cache.ttls.${operation}`, number());
+    if (seconds !== undefined) cache.ttls[operation] = seconds;
+  }
+
+  const { retry } = DEFAULT_LIMITS_CONFIG;
+  const limits: LimitsConfig = {
+    retry: {
+      retries: get("limits.retries", number({ integer: true })) ?? retry.retries,
+      baseDelayMs: get("limits.retryBaseDelayMs", number()) ?? retry.baseDelayMs,
+      maxDelayMs: get("limits.retryMaxDelayMs", number()) ?? retry.maxDelayMs,
+    },
+    rateLimits: {},
+    budgets: {},
+  };
+  for (const api of MAPS_APIS) {
+    const rate = get(`limits.rateLimits.${api}`, number());
+    if (rate !== undefined) limits.rateLimits[api] = rate;
+    const daily = get(`limits.budgets.${api}.daily`, number({ integer: true }));
+    const monthly = get(`limits.budgets.${api}.monthly`, number({ integer: true }));
+    if (daily !== undefined || monthly !== undefined) limits.budgets[api] = { daily, monthly };
+  }
+
+  const tools: ToolsConfig = {
+    enabled: get("tools.enabled", list),
+    disabled: get("tools.disabled", list),
+    defaults: get("tools.defaults", toolDefaults) ?? {},
+  };
+  const units = get("units", oneOf(["metric", "imperial"] as const));
+  try {
+    configureTools(tools, { units });
+  } catch (error) {
+    errors.push(`tools: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const config: Config = {
+    provider,
+    locale: {
+      language: get("language", (value) => parseLanguage(text(value))) ?? Language.en,
+      region: get("region", (value) => parseRegion(text(value))),
+    },
+    units,
+    tools,
+    cache,
+    limits,
+    logLevel: get("logLevel", oneOf(LOG_LEVELS)) ?? "info",
+    server: {
+      transport: get("server.transport", oneOf(["stdio", "http"] as const)) ?? "stdio",
+      host: get("server.host", text) ?? "127.0.0.1",
+      port: get("server.port", number({ integer: true, max: 65535 })) ?? 3000,
+    },
+  };
+
+  if (errors.length) throw new ConfigError(`Invalid configuration:\n${errors.map((error) => `  - ${error}`).join("\n")}`);
+  return config;
+}
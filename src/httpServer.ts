@@ -0,0 +1,147 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { randomUUID } from "crypto";
+import http, { IncomingMessage, ServerResponse } from "http";
+import { createLogger, Logger } from "./maps-tools/logger.js";
+
+/** Sessions without requests for this long are closed, since clients may vanish without closing them. */
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  logger?: Logger;
+  sessionIdleTimeoutMs?: number;
+}
+
+interface Session<T> {
+  transport: T;
+  lastActivity: number;
+  /** The SSE stream of a legacy session, which is open for as long as the client listens. */
+  stream?: ServerResponse;
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const body = Buffer.concat(chunks).toString("utf8");
+  return body ? JSON.parse(body) : undefined;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string) {
+  sendJson(res, status, { jsonrpc: "2.0", error: { code: -32000, message }, id: null });
+}
+
+/**
+ * Serves MCP over Streamable HTTP (`/mcp`) and the legacy SSE transport (`/sse` + `/messages`).
+ * Every session gets its own server from `createSessionServer` and is closed once it has been
+ * idle for `sessionIdleTimeoutMs`, unless its SSE stream is still open; `/health` reports
+ * liveness and the live sessions.
+ */
+export function startHttpServer(createSessionServer: () => Server, options: HttpServerOptions): Promise<http.Server> {
+  const streamableSessions = new Map<string, Session<StreamableHTTPServerTransport>>();
+  const sseSessions = new Map<string, Session<SSEServerTransport>>();
+  const logger = options.logger ?? createLogger();
+  const idleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+
+  /** Returns the session with `id` and marks it as active. */
+  function touch<T>(sessions: Map<string, Session<T>>, id: string): T | undefined {
+    const session = sessions.get(id);
+    if (session) session.lastActivity = Date.now();
+    return session?.transport;
+  }
+
+  function closeIdle<T extends { close(): Promise<void> }>(sessions: Map<string, Session<T>>, cutoff: number) {
+    for (const [id, session] of sessions) {
+      if (session.lastActivity > cutoff) continue;
+      if (session.stream && !session.stream.destroyed) {
+        // A client that only listens sends nothing; the comment is ignored by it but fails once it is gone.
+        session.stream.write(": keepalive\n\n");
+        session.lastActivity = Date.now();
+        continue;
+      }
+      sessions.delete(id);
+      logger.debug(`Closing idle session ${id}`);
+      session.transport.close().catch((error) => logger.error(`Error closing idle session ${id}:`, error));
+    }
+  }
+
+  function closeIdleSessions() {
+    const cutoff = Date.now() - idleTimeoutMs;
+    closeIdle(streamableSessions, cutoff);
+    closeIdle(sseSessions, cutoff);
+  }
+
+  async function handleStreamable(req: IncomingMessage, res: ServerResponse) {
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+
+    if (sessionId) {
+      const transport = touch(streamableSessions, sessionId);
+      if (!transport) return sendJsonRpcError(res, 404, "Session not found");
+      return transport.handleRequest(req, res, body);
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      return sendJsonRpcError(res, 400, "Bad Request: No valid session ID provided");
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        streamableSessions.set(id, { transport, lastActivity: Date.now() });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) streamableSessions.delete(transport.sessionId);
+    };
+    await createSessionServer().connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  async function handleSseConnect(res: ServerResponse) {
+    const transport = new SSEServerTransport("/messages", res);
+    sseSessions.set(transport.sessionId, { transport, lastActivity: Date.now(), stream: res });
+    res.on("close", () => sseSessions.delete(transport.sessionId));
+    await createSessionServer().connect(transport);
+  }
+
+  async function handleSseMessage(req: IncomingMessage, res: ServerResponse, url: URL) {
+    const transport = touch(sseSessions, url.searchParams.get("sessionId") || "");
+    if (!transport) return sendJsonRpcError(res, 404, "Session not found");
+    await transport.handlePostMessage(req, res, await readJsonBody(req));
+  }
+
+  const httpServer = http.createServer(async (req, res) => {
+    const url = new URL(req.url || "/", `http://${req.headers.host || "localhost"}`);
+    try {
+      if (url.pathname === "/health" && req.method === "GET") {
+        closeIdleSessions();
+        return sendJson(res, 200, { status: "ok", sessions: streamableSessions.size + sseSessions.size });
+      }
+      if (url.pathname === "/mcp") return await handleStreamable(req, res);
+      if (url.pathname === "/sse" && req.method === "GET") return await handleSseConnect(res);
+      if (url.pathname === "/messages" && req.method === "POST") return await handleSseMessage(req, res, url);
+      sendJson(res, 404, { error: "Not found" });
+    } catch (error) {
+      logger.error("Error handling HTTP request:", error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, error instanceof SyntaxError ? 400 : 500, error instanceof SyntaxError ? "Parse error" : "Internal server error");
+      }
+    }
+  });
+
+  const sweep = setInterval(closeIdleSessions, Math.min(idleTimeoutMs, 60 * 1000)).unref();
+  httpServer.on("close", () => clearInterval(sweep));
+
+  return new Promise((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => resolve(httpServer));
+  });
+}
@@ -1,206 +1,57 @@
 #!/usr/bin/env node
 
-import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { CallToolRequestSchema, ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
-import { DIRECTIONS_TOOL, DISTANCE_MATRIX_TOOL, ELEVATION_TOOL, GEOCODE_TOOL, GET_PLACE_DETAILS_TOOL, REVERSE_GEOCODE_TOOL, SEARCH_NEARBY_TOOL } from "./maps-tools/mapsTools.js";
+import dotenv from "dotenv";
+import { Config, ConfigError, loadConfig, parseCommandLine, USAGE } from "./config.js";
+import { startHttpServer } from "./httpServer.js";
+import { createLogger } from "./maps-tools/logger.js";
+import { createMapsProvider } from "./maps-tools/providers/index.js";
 import { PlacesSearcher } from "./maps-tools/searchPlaces.js";
+import { GoogleMapsTools } from "./maps-tools/toolclass.js";
+import { ToolRegistry } from "./maps-tools/toolRegistry.js";
+import { configureTools } from "./maps-tools/tools.js";
+import { createServer } from "./server.js";
 
-const tools = [SEARCH_NEARBY_TOOL, GET_PLACE_DETAILS_TOOL, GEOCODE_TOOL, REVERSE_GEOCODE_TOOL, DISTANCE_MATRIX_TOOL, DIRECTIONS_TOOL, ELEVATION_TOOL];
-const placesSearcher = new PlacesSearcher();
-
-const server = new Server(
-  {
-    name: "mcp-server/maps_executor",
-    version: "0.0.1",
-  },
-  {
-    capabilities: {
-      description: "An MCP server providing Google Maps integration",
-      tools: {},
-    },
-  }
-);
-
-server.setRequestHandler(ListToolsRequestSchema, async () => ({
-  tools,
-}));
-
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+async function runServer(config: Config) {
+  const logger = createLogger(config.logLevel);
   try {
-    const { name, arguments: args } = request.params;
-
-    if (!args) throw new Error("No parameters provided");
-
-    if (name === "search_nearby") {
-      const { center, keyword, radius, openNow, minRating } = args as {
-        center: { value: string; isCoordinates: boolean };
-        keyword?: string;
-        radius?: number;
-        openNow?: boolean;
-        minRating?: number;
-      };
-
-      const result = await placesSearcher.searchNearby({ center, keyword, radius, openNow, minRating });
-
-      if (!result.success) {
-        return {
-          content: [{ type: "text", text: result.error || "Search failed" }],
-          isError: true,
-        };
-      }
-
-      return {
-        content: [
-          {
-            type: "text",
-            text: `location: ${JSON.stringify(result.location, null, 2)}\n${JSON.stringify(result.data, null, 2)}`,
-          },
-        ],
-        isError: false,
-      };
+    const placesSearcher = new PlacesSearcher(new GoogleMapsTools(createMapsProvider(config, logger), config.locale, logger));
+    const registry = new ToolRegistry(configureTools(config.tools, { units: config.units }));
+    const { transport, host, port } = config.server;
+
+    if (transport === "http") {
+      await startHttpServer(() => createServer(placesSearcher, registry, logger), { host, port, logger });
+      logger.info(`MCP Maps Server listening on http://${host}:${port} (streamable HTTP at /mcp, SSE at /sse)`);
+      return;
     }
 
-    if (name === "get_place_details") {
-      const { placeId } = args as { placeId: string };
-
-      const result = await placesSearcher.getPlaceDetails(placeId);
-
-      if (!result.success) {
-        return {
-          content: [{ type: "text", text: result.error || "Failed to fetch place details" }],
-          isError: true,
-        };
-      }
-
-      return {
-        content: [{ type: "text", text: JSON.stringify(result.data, null, 2) }],
-        isError: false,
-      };
-    }
-
-    if (name === "maps_geocode") {
-      const { address } = args as { address: string };
-
-      const result = await placesSearcher.geocode(address);
-
-      if (!result.success) {
-        return {
-          content: [{ type: "text", text: result.error || "Geocoding failed" }],
-          isError: true,
-        };
-      }
-
-      return {
-        content: [{ type: "text", text: JSON.stringify(result.data, null, 2) }],
-        isError: false,
-      };
-    }
-
-    if (name === "maps_reverse_geocode") {
-      const { latitude, longitude } = args as { latitude: number; longitude: number };
-
-      const result = await placesSearcher.reverseGeocode(latitude, longitude);
-
-      if (!result.success) {
-        return {
-          content: [{ type: "text", text: result.error || "Reverse geocoding failed" }],
-          isError: true,
-        };
-      }
-
-      return {
-        content: [{ type: "text", text: JSON.stringify(result.data, null, 2) }],
-        isError: false,
-      };
-    }
-
-    if (name === "maps_distance_matrix") {
-      const { origins, destinations, mode } = args as {
-        origins: string[];
-        destinations: string[];
-        mode?: "driving" | "walking" | "bicycling" | "transit";
-      };
-
-      const result = await placesSearcher.calculateDistanceMatrix(origins, destinations, mode || "driving");
-
-      if (!result.success) {
-        return {
-          content: [{ type: "text", text: result.error || "Distance matrix calculation failed" }],
-          isError: true,
-        };
-      }
-
-      return {
-        content: [{ type: "text", text: JSON.stringify(result.data, null, 2) }],
-        isError: false,
-      };
-    }
-
-    if (name === "maps_directions") {
-      const { origin, destination, mode } = args as {
-        origin: string;
-        destination: string;
-        mode?: "driving" | "walking" | "bicycling" | "transit";
-      };
-
-      const result = await placesSearcher.getDirections(origin, destination, mode || "driving");
-
-      if (!result.success) {
-        return {
-          content: [{ type: "text", text: result.error || "Fetching directions failed" }],
-          isError: true,
-        };
-      }
-
-      return {
-        content: [{ type: "text", text: JSON.stringify(result.data, null, 2) }],
-        isError: false,
-      };
-    }
-
-    if (name === "maps_elevation") {
-      const { locations } = args as { locations: Array<{ latitude: number; longitude: number }> };
-
-      const result = await placesSearcher.getElevation(locations);
-
-      if (!result.success) {
-        return {
-          content: [{ type: "text", text: result.error || "Elevation data fetching failed" }],
-          isError: true,
-        };
-      }
-
-      return {
-        content: [{ type: "text", text: JSON.stringify(result.data, null, 2) }],
-        isError: false,
-      };
-    }
-
-    return {
-      content: [{ type: "text", text: `Error: Unknown tool '${name}'` }],
-      isError: true,
-    };
+    await createServer(placesSearcher, registry, logger).connect(new StdioServerTransport());
+    logger.info("MCP Maps Server started");
   } catch (error) {
-    return {
-      content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-      isError: true,
-    };
+    logger.error("Server startup failed:", error);
+    process.exit(1);
   }
-});
+}
 
-async function runServer() {
-  try {
-    const transport = new StdioServerTransport();
-    await server.connect(transport);
-    console.log("MCP Maps Server started");
-  } catch (error) {
-    console.error("Server startup failed:", error);
-    process.exit(1);
+// Exit normally on signals so that "exit" handlers, such as the file cache's final write, run.
+for (const signal of ["SIGINT", "SIGTERM"] as const) process.once(signal, () => process.exit(0));
+
+dotenv.config();
+
+let config: Config;
+try {
+  const { help, flags } = parseCommandLine(process.argv.slice(2));
+  if (help) {
+    console.log(USAGE);
+    process.exit(0);
   }
+  config = loadConfig(flags, process.env);
+} catch (error) {
+  console.error(error instanceof ConfigError ? error.message : error);
+  process.exit(1);
 }
 
-runServer().catch((error) => {
+runServer(config).catch((error) => {
   console.error("Server encountered a critical error:", error);
   process.exit(1);
-});
\ No newline at end of file
+});
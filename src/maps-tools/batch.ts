@@ -0,0 +1,49 @@
+import { toMapsError } from "./errors.js";
+import { BatchItem, BatchResult } from "./results.js";
+
+/** Runs `task` for every item with at most `concurrency` calls in flight; results keep the input order. */
+export async function mapConcurrent<T, R>(items: T[], concurrency: number, task: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker));
+  return results;
+}
+
+/**
+ * Runs `task` once per distinct input (as told apart by `key`) and reports every input
+ * with its own status. A failing input yields an item carrying the error instead of
+ * failing the whole batch.
+ */
+export async function runBatch<Input, Output>(
+  inputs: Input[],
+  options: { key: (input: Input) => string; concurrency: number; operation: string },
+  task: (input: Input) => Promise<Output>
+): Promise<BatchResult<Input, Output>> {
+  const unique = new Map<string, Input>();
+  for (const input of inputs) {
+    const key = options.key(input);
+    if (!unique.has(key)) unique.set(key, input);
+  }
+
+  const outcomes = new Map<string, Omit<BatchItem<Input, Output>, "input">>();
+  await mapConcurrent([...unique], options.concurrency, async ([key, input]) => {
+    try {
+      outcomes.set(key, { status: "OK", result: await task(input) });
+    } catch (error) {
+      const details = toMapsError(error, options.operation).toJSON();
+      outcomes.set(key, { status: details.code, error: details });
+    }
+  });
+
+  const results = inputs.map((input) => ({ input, ...outcomes.get(options.key(input))! }));
+  const succeeded = results.filter((item) => item.status === "OK").length;
+  return { results, succeeded, failed: results.length - succeeded, unique_inputs: unique.size };
+}
@@ -0,0 +1,192 @@
+import {
+  DirectionsRequest,
+  DistanceMatrixRequest,
+  GeocodeRequest,
+  PlaceAutocompleteRequest,
+  PlaceDetailsRequest,
+  PlacePhotoRequest,
+  PlaceQueryAutocompleteRequest,
+  PlacesNearbyRequest,
+  ReverseGeocodeRequest,
+  Status,
+  TextSearchRequest,
+} from "@googlemaps/google-maps-services-js";
+import { AsyncLocalStorage } from "async_hooks";
+import { toLatLngLiteral } from "../geo.js";
+import { ElevationParams, MapsProvider, ProviderParams } from "../providers/types.js";
+import { CacheStore } from "./stores.js";
+
+export type CachedOperation =
+  | "geocode"
+  | "reverseGeocode"
+  | "placesNearby"
+  | "placesNearbyOpenNow"
+  | "textSearch"
+  | "placeDetails"
+  | "placeAutocomplete"
+  | "placeQueryAutocomplete"
+  | "distanceMatrix"
+  | "distanceMatrixNow"
+  | "directions"
+  | "directionsNow"
+  | "elevation";
+
+export type CacheTtls = Record<CachedOperation, number>;
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/** Geocodes and elevations practically never change; anything involving opening hours or traffic does. */
+export const DEFAULT_CACHE_TTLS: CacheTtls = {
+  geocode: 30 * DAY,
+  reverseGeocode: 30 * DAY,
+  elevation: 30 * DAY,
+  placeDetails: DAY,
+  placesNearby: HOUR,
+  placesNearbyOpenNow: 5 * MINUTE,
+  textSearch: HOUR,
+  placeAutocomplete: HOUR,
+  placeQueryAutocomplete: HOUR,
+  distanceMatrix: HOUR,
+  distanceMatrixNow: 5 * MINUTE,
+  directions: HOUR,
+  directionsNow: 5 * MINUTE,
+};
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+}
+
+const statsStorage = new AsyncLocalStorage<CacheStats>();
+
+/** Runs `fn` and reports how many provider calls made inside it were served from the cache. */
+export async function trackCacheUsage<T>(fn: () => Promise<T>): Promise<{ value: T; stats: CacheStats }> {
+  const stats: CacheStats = { hits: 0, misses: 0 };
+  const value = await statsStorage.run(stats, fn);
+  return { value, stats };
+}
+
+/** Request parameters holding free text that is matched case- and whitespace-insensitively by Google. */
+const TEXT_KEYS = new Set(["address", "query", "keyword", "name", "origin", "destination", "origins", "destinations", "waypoints"]);
+
+const normalizeCoordinates = (lat: number, lng: number) => `${lat.toFixed(6)},${lng.toFixed(6)}`;
+
+function normalize(value: unknown, isText = false): unknown {
+  if (Array.isArray(value)) {
+    if (value.length === 2 && value.every((item) => typeof item === "number")) return normalizeCoordinates(value[0], value[1]);
+    return value.map((item) => normalize(item, isText));
+  }
+  if (value instanceof Date) return Math.floor(value.getTime() / 1000);
+  if (typeof value === "string") {
+    const coordinates = toLatLngLiteral(value);
+    if (coordinates) return normalizeCoordinates(coordinates.lat, coordinates.lng);
+    return isText ? value.trim().toLowerCase().replace(/\s+/g, " ") : value;
+  }
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    if (typeof record.lat === "number" && typeof record.lng === "number") return normalizeCoordinates(record.lat, record.lng);
+    if (typeof record.latitude === "number" && typeof record.longitude === "number") return normalizeCoordinates(record.latitude, record.longitude);
+    return Object.fromEntries(
+      Object.keys(record)
+        .filter((key) => record[key] !== undefined)
+        .sort()
+        .map((key) => [key, normalize(record[key], TEXT_KEYS.has(key))])
+    );
+  }
+  return value;
+}
+
+export function cacheKey(operation: string, params: object): string {
+  return `${operation}:${JSON.stringify(normalize(params))}`;
+}
+
+/** Only successful lookups are worth remembering; quota and auth failures must be retried. */
+const isCacheable = (data: { status: Status }) => data.status === Status.OK || data.status === Status.ZERO_RESULTS;
+
+/** Decorates a provider with a response cache using per-operation TTLs. */
+export class CachingMapsProvider implements MapsProvider {
+  readonly name: string;
+  readonly pageTokenDelayMs?: number;
+
+  constructor(
+    private readonly provider: MapsProvider,
+    private readonly store: CacheStore,
+    private readonly ttls: CacheTtls = DEFAULT_CACHE_TTLS
+  ) {
+    this.name = provider.name;
+    this.pageTokenDelayMs = provider.pageTokenDelayMs;
+  }
+
+  private async cached<T extends { status: Status }>(operation: CachedOperation, params: object, fetch: () => Promise<T>): Promise<T> {
+    const stats = statsStorage.getStore();
+    const ttl = this.ttls[operation];
+    if (ttl <= 0) return fetch();
+
+    const key = cacheKey(operation, params);
+    const entry = this.store.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      if (stats) stats.hits++;
+      return entry.value as T;
+    }
+    if (entry) this.store.delete(key);
+
+    if (stats) stats.misses++;
+    const value = await fetch();
+    if (isCacheable(value)) {
+      this.store.set(key, { value, expiresAt: Date.now() + ttl });
+    }
+    return value;
+  }
+
+  geocode(params: ProviderParams<GeocodeRequest>) {
+    return this.cached("geocode", params, () => this.provider.geocode(params));
+  }
+
+  reverseGeocode(params: ProviderParams<ReverseGeocodeRequest>) {
+    return this.cached("reverseGeocode", params, () => this.provider.reverseGeocode(params));
+  }
+
+  placesNearby(params: ProviderParams<PlacesNearbyRequest>) {
+    const operation = params.opennow ? "placesNearbyOpenNow" : "placesNearby";
+    return this.cached(operation, params, () => this.provider.placesNearby(params));
+  }
+
+  textSearch(params: ProviderParams<TextSearchRequest>) {
+    return this.cached("textSearch", params, () => this.provider.textSearch(params));
+  }
+
+  placeDetails(params: ProviderParams<PlaceDetailsRequest>) {
+    return this.cached("placeDetails", params, () => this.provider.placeDetails(params));
+  }
+
+  /** Images are not cached: they are large, and the stores only hold JSON. */
+  placePhoto(params: ProviderParams<PlacePhotoRequest>) {
+    return this.provider.placePhoto(params);
+  }
+
+  /** The session token is new for every session, so it is left out of the key for entries to be reused across sessions. */
+  placeAutocomplete(params: ProviderParams<PlaceAutocompleteRequest>) {
+    const { sessiontoken, ...key } = params;
+    return this.cached("placeAutocomplete", key, () => this.provider.placeAutocomplete(params));
+  }
+
+  placeQueryAutocomplete(params: ProviderParams<PlaceQueryAutocompleteRequest>) {
+    return this.cached("placeQueryAutocomplete", params, () => this.provider.placeQueryAutocomplete(params));
+  }
+
+  distanceMatrix(params: ProviderParams<DistanceMatrixRequest>) {
+    const operation = (params.departure_time as unknown) === "now" ? "distanceMatrixNow" : "distanceMatrix";
+    return this.cached(operation, params, () => this.provider.distanceMatrix(params));
+  }
+
+  directions(params: ProviderParams<DirectionsRequest>) {
+    const operation = params.departure_time === "now" ? "directionsNow" : "directions";
+    return this.cached(operation, params, () => this.provider.directions(params));
+  }
+
+  elevation(params: ElevationParams) {
+    return this.cached("elevation", params, () => this.provider.elevation(params));
+  }
+}
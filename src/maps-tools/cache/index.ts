@@ -0,0 +1,47 @@
+import os from "os";
+import path from "path";
+import { createLogger, Logger } from "../logger.js";
+import { MapsProvider } from "../providers/types.js";
+import { CachedOperation, CachingMapsProvider, DEFAULT_CACHE_TTLS } from "./cachingProvider.js";
+import { FileCacheStore, MemoryCacheStore } from "./stores.js";
+
+export { CachingMapsProvider, DEFAULT_CACHE_TTLS, trackCacheUsage } from "./cachingProvider.js";
+export type { CachedOperation, CacheStats, CacheTtls } from "./cachingProvider.js";
+export { FileCacheStore, MemoryCacheStore } from "./stores.js";
+export type { CacheEntry, CacheStore } from "./stores.js";
+
+export type CacheMode = "memory" | "file" | "off";
+
+export const CACHE_MODES: CacheMode[] = ["memory", "file", "off"];
+
+export const DEFAULT_CACHE_PATH = path.join(os.homedir(), ".mcp-google-map-cache.json");
+
+export interface CacheConfig {
+  /** "memory" keeps responses for the lifetime of the process, "file" persists them to `path`. */
+  mode: CacheMode;
+  path: string;
+  /** Seconds per operation, overriding `DEFAULT_CACHE_TTLS`. */
+  ttls: Partial<Record<CachedOperation, number>>;
+}
+
+export const DEFAULT_CACHE_CONFIG: CacheConfig = { mode: "memory", path: DEFAULT_CACHE_PATH, ttls: {} };
+
+function ttls(config: CacheConfig) {
+  const result = { ...DEFAULT_CACHE_TTLS };
+  for (const [operation, seconds] of Object.entries(config.ttls) as Array<[CachedOperation, number]>) {
+    result[operation] = seconds * 1000;
+  }
+  return result;
+}
+
+/** Wraps `provider` with the configured response cache. */
+export function withCache(provider: MapsProvider, config: CacheConfig = DEFAULT_CACHE_CONFIG, logger: Logger = createLogger()): MapsProvider {
+  switch (config.mode) {
+    case "off":
+      return provider;
+    case "memory":
+      return new CachingMapsProvider(provider, new MemoryCacheStore(), ttls(config));
+    case "file":
+      return new CachingMapsProvider(provider, new FileCacheStore(config.path, undefined, logger), ttls(config));
+  }
+}
@@ -0,0 +1,131 @@
+import fs from "fs";
+import { createLogger, Logger } from "../logger.js";
+
+export interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined;
+  set(key: string, entry: CacheEntry): void;
+  delete(key: string): void;
+}
+
+/** Process-local store with a simple size bound (oldest entries are evicted first). */
+export class MemoryCacheStore implements CacheStore {
+  protected entries = new Map<string, CacheEntry>();
+
+  constructor(private readonly maxEntries = 5000) {}
+
+  get(key: string) {
+    return this.entries.get(key);
+  }
+
+  set(key: string, entry: CacheEntry) {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string) {
+    this.entries.delete(key);
+  }
+}
+
+/** Changes are written at most this often, so a burst of cache misses costs a single write. */
+const FLUSH_DELAY_MS = 1000;
+
+/**
+ * Memory store that is persisted to a JSON file so cached responses survive restarts.
+ * Expired entries are dropped when the file is loaded, and pending changes are written
+ * synchronously when the process exits.
+ */
+export class FileCacheStore extends MemoryCacheStore {
+  private dirty = false;
+  /** An async write has taken the pending changes but not yet replaced the file. */
+  private writeInProgress = false;
+  private flushTimer?: NodeJS.Timeout;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly path: string,
+    maxEntries?: number,
+    private readonly logger: Logger = createLogger()
+  ) {
+    super(maxEntries);
+    this.load();
+    process.on("exit", () => this.flushSync());
+  }
+
+  private load() {
+    if (!fs.existsSync(this.path)) return;
+    try {
+      const stored = JSON.parse(fs.readFileSync(this.path, "utf8")) as Record<string, CacheEntry>;
+      const now = Date.now();
+      for (const [key, entry] of Object.entries(stored)) {
+        if (entry.expiresAt > now) super.set(key, entry);
+      }
+    } catch (error) {
+      this.logger.warn(`Ignoring unreadable cache file ${this.path}:`, error);
+    }
+  }
+
+  private scheduleFlush() {
+    this.dirty = true;
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = undefined;
+      void this.flush();
+    }, FLUSH_DELAY_MS).unref();
+  }
+
+  /** Writes pending changes now; resolves once they are on disk. */
+  flush(): Promise<void> {
+    this.writing = this.writing.then(() => this.write());
+    return this.writing;
+  }
+
+  /** Writes to a temporary file that replaces the cache file, so a crash mid-write keeps the previous version. */
+  private async write() {
+    if (!this.dirty) return;
+    this.dirty = false;
+    this.writeInProgress = true;
+    const temporary = `${this.path}.${process.pid}.tmp`;
+    try {
+      await fs.promises.writeFile(temporary, JSON.stringify(Object.fromEntries(this.entries)));
+      await fs.promises.rename(temporary, this.path);
+    } catch (error) {
+      this.logger.error(`Failed to write cache file ${this.path}:`, error);
+    } finally {
+      this.writeInProgress = false;
+    }
+  }
+
+  /** Writes pending changes before the process exits, when async writes can no longer finish. */
+  private flushSync() {
+    if (!this.dirty && !this.writeInProgress) return;
+    this.dirty = false;
+    const temporary = `${this.path}.${process.pid}.exit.tmp`;
+    try {
+      fs.writeFileSync(temporary, JSON.stringify(Object.fromEntries(this.entries)));
+      fs.renameSync(temporary, this.path);
+    } catch (error) {
+      this.logger.error(`Failed to write cache file ${this.path}:`, error);
+    }
+  }
+
+  set(key: string, entry: CacheEntry) {
+    super.set(key, entry);
+    this.scheduleFlush();
+  }
+
+  delete(key: string) {
+    super.delete(key);
+    this.scheduleFlush();
+  }
+}
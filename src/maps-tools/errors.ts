@@ -0,0 +1,174 @@
+/**
+ * Machine-readable error codes. Google status codes are passed through as-is; the
+ * remaining ones describe failures that happen before or around the API call.
+ */
+export type MapsErrorCode =
+  | "ZERO_RESULTS"
+  | "NOT_FOUND"
+  | "INVALID_REQUEST"
+  | "MAX_WAYPOINTS_EXCEEDED"
+  | "MAX_ROUTE_LENGTH_EXCEEDED"
+  | "MAX_ELEMENTS_EXCEEDED"
+  | "MAX_DIMENSIONS_EXCEEDED"
+  | "OVER_QUERY_LIMIT"
+  | "OVER_DAILY_LIMIT"
+  | "REQUEST_DENIED"
+  | "UNKNOWN_ERROR"
+  | "INVALID_ARGUMENT"
+  | "BUDGET_EXCEEDED"
+  | "NETWORK_ERROR"
+  | "INTERNAL_ERROR";
+
+export interface MapsErrorDetails {
+  code: MapsErrorCode;
+  message: string;
+  retryable: boolean;
+  hint?: string;
+  /** Per-field messages for rejected tool arguments, keyed by path (e.g. `center.value`). */
+  fields?: Record<string, string>;
+}
+
+/** Base class of all errors surfaced to tool callers. */
+export class MapsError extends Error {
+  constructor(
+    message: string,
+    readonly code: MapsErrorCode,
+    readonly retryable: boolean,
+    readonly hint?: string
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+
+  toJSON(): MapsErrorDetails {
+    return { code: this.code, message: this.message, retryable: this.retryable, hint: this.hint };
+  }
+}
+
+/** A tool argument was rejected before any request was made. */
+export class InvalidArgumentError extends MapsError {
+  constructor(message: string, hint?: string) {
+    super(message, "INVALID_ARGUMENT", false, hint);
+  }
+}
+
+/** Tool arguments did not match the tool's input schema. */
+export class ValidationError extends InvalidArgumentError {
+  constructor(
+    message: string,
+    readonly fields: Record<string, string>
+  ) {
+    super(message, "Fix the listed fields; see the tool's input schema for allowed values");
+  }
+
+  toJSON(): MapsErrorDetails {
+    return { ...super.toJSON(), fields: this.fields };
+  }
+}
+
+/** The request was valid but nothing matched it. */
+export class NoResultsError extends MapsError {
+  constructor(message: string, code: "ZERO_RESULTS" | "NOT_FOUND" = "ZERO_RESULTS") {
+    super(
+      message,
+      code,
+      false,
+      code === "NOT_FOUND"
+        ? "An address or place ID could not be resolved; check its spelling or use coordinates instead"
+        : "Nothing matched; try a broader query, a larger radius or fewer filters"
+    );
+  }
+}
+
+/** Google rejected the request as malformed or too large. */
+export class InvalidRequestError extends MapsError {
+  constructor(message: string, code: MapsErrorCode = "INVALID_REQUEST", hint?: string) {
+    super(message, code, false, hint ?? "Check the arguments; a required parameter may be missing or out of range");
+  }
+}
+
+/** A rate limit or quota was hit. */
+export class QuotaExceededError extends MapsError {
+  constructor(message: string, code: "OVER_QUERY_LIMIT" | "OVER_DAILY_LIMIT" = "OVER_QUERY_LIMIT") {
+    super(
+      message,
+      code,
+      code === "OVER_QUERY_LIMIT",
+      code === "OVER_QUERY_LIMIT"
+        ? "Too many requests; wait a moment and retry"
+        : "The daily quota is used up or billing is not enabled for the API key"
+    );
+  }
+}
+
+/** The API key is missing, invalid or not allowed to use this API. */
+export class RequestDeniedError extends MapsError {
+  constructor(message: string) {
+    super(message, "REQUEST_DENIED", false, "Check that GOOGLE_MAPS_API_KEY is valid and the required Google Maps API is enabled for it");
+  }
+}
+
+/** Google or the network failed; the same request may well succeed later. */
+export class UpstreamError extends MapsError {
+  constructor(message: string, code: "UNKNOWN_ERROR" | "NETWORK_ERROR" = "UNKNOWN_ERROR") {
+    super(message, code, true, "A temporary server or network error; retry the request");
+  }
+}
+
+/** A request budget configured for this server is used up; no request was sent. */
+export class BudgetExceededError extends MapsError {
+  constructor(message: string, resetsAt: string) {
+    super(message, "BUDGET_EXCEEDED", false, `The server's request budget ${resetsAt}; do not retry before then`);
+  }
+}
+
+const REQUEST_LIMIT_HINTS: Record<string, string> = {
+  MAX_WAYPOINTS_EXCEEDED: "Too many waypoints; split the route into several requests",
+  MAX_ROUTE_LENGTH_EXCEEDED: "The route is too long to compute; add intermediate destinations",
+  MAX_ELEMENTS_EXCEEDED: "origins x destinations is too large; split the matrix into smaller requests",
+  MAX_DIMENSIONS_EXCEEDED: "Too many origins or destinations; split the matrix into smaller requests",
+};
+
+/** The error matching a non-OK Google status, with Google's `error_message` appended when present. */
+export function statusError(status: string, errorMessage: string | undefined, operation: string): MapsError {
+  const message = `${operation} failed: ${status}${errorMessage ? ` (${errorMessage})` : ""}`;
+  switch (status) {
+    case "ZERO_RESULTS":
+    case "NOT_FOUND":
+      return new NoResultsError(message, status);
+    case "OVER_QUERY_LIMIT":
+    case "OVER_DAILY_LIMIT":
+      return new QuotaExceededError(message, status);
+    case "REQUEST_DENIED":
+      return new RequestDeniedError(message);
+    case "INVALID_REQUEST":
+    case "MAX_WAYPOINTS_EXCEEDED":
+    case "MAX_ROUTE_LENGTH_EXCEEDED":
+    case "MAX_ELEMENTS_EXCEEDED":
+    case "MAX_DIMENSIONS_EXCEEDED":
+      return new InvalidRequestError(message, status, REQUEST_LIMIT_HINTS[status]);
+    default:
+      return new UpstreamError(message);
+  }
+}
+
+/**
+ * Normalizes anything thrown while talking to a provider. The Google client throws for
+ * HTTP errors; those still carry the API status in the response body.
+ */
+export function toMapsError(error: unknown, operation: string): MapsError {
+  if (error instanceof MapsError) return error;
+
+  const httpError = error as { response?: { status?: number; data?: { status?: string; error_message?: string } }; request?: unknown };
+  if (httpError?.response) {
+    const { status, data } = httpError.response;
+    if (data?.status) return statusError(data.status, data.error_message, operation);
+    if (status && status >= 500) return new UpstreamError(`${operation} failed: HTTP ${status}`);
+    return new InvalidRequestError(`${operation} failed: HTTP ${status}`);
+  }
+  if (httpError?.request) return new UpstreamError(`${operation} failed: no response from the server`, "NETWORK_ERROR");
+
+  // Anything else is a bug in this server rather than an upstream failure; keep its message.
+  const cause = error instanceof Error ? error.message : String(error);
+  return new MapsError(`${operation} failed: ${cause}`, "INTERNAL_ERROR", false, "An unexpected error in the server, not in the Google API; retrying will not help");
+}
@@ -0,0 +1,40 @@
+const METERS_PER_MILE = 1609.344;
+const FEET_PER_METER = 3.28084;
+
+/** Human-readable distance in the style of Google's `text` fields ("850 m", "12.3 km", "7.6 mi"). */
+export function formatDistance(meters: number, units: "metric" | "imperial" = "metric") {
+  if (units === "imperial") {
+    const miles = meters / METERS_PER_MILE;
+    return miles >= 0.1 ? `${miles.toFixed(1)} mi` : `${Math.round(meters * FEET_PER_METER)} ft`;
+  }
+  return meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${Math.round(meters)} m`;
+}
+
+const HTML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " };
+
+/**
+ * Plain text from Google's `html_instructions`. Block elements such as the trailing
+ * `<div>Destination will be on the right</div>` become sentence breaks.
+ */
+export function stripHtml(html: string) {
+  return html
+    .replace(/<\/?(div|br|p)\b[^>]*>/gi, "\n")
+    .replace(/<[^>]*>/g, "")
+    .replace(/&(#\d+|#x[0-9a-f]+|[a-z]+);/gi, (entity, name: string) => {
+      if (name[0] === "#") return String.fromCodePoint(name[1].toLowerCase() === "x" ? parseInt(name.slice(2), 16) : Number(name.slice(1)));
+      return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+    })
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .join(". ");
+}
+
+/** Human-readable duration in the style of Google's `text` fields ("25 mins", "1 hour 5 mins"). */
+export function formatDuration(seconds: number) {
+  const minutes = Math.max(1, Math.round(seconds / 60));
+  if (minutes < 60) return `${minutes} min${minutes === 1 ? "" : "s"}`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return `${hours} hour${hours === 1 ? "" : "s"}${rest ? ` ${rest} min${rest === 1 ? "" : "s"}` : ""}`;
+}
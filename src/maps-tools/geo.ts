@@ -0,0 +1,152 @@
+import { LatLng, LatLngLiteral } from "@googlemaps/google-maps-services-js";
+
+const EARTH_RADIUS_METERS = 6371008.8;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/** Great-circle distance between two points in meters. */
+export function haversineDistance(a: LatLngLiteral, b: LatLngLiteral): number {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Normalizes any of the SDK's `LatLng` shapes to a literal. Strings that are not
+ * `lat,lng` pairs (i.e. addresses) yield `undefined`.
+ */
+export function toLatLngLiteral(value: LatLng): LatLngLiteral | undefined {
+  if (Array.isArray(value)) return { lat: value[0], lng: value[1] };
+  if (typeof value === "string") {
+    const match = value.trim().match(/^(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)$/);
+    return match ? { lat: parseFloat(match[1]), lng: parseFloat(match[2]) } : undefined;
+  }
+  if ("latitude" in value) return { lat: value.latitude, lng: value.longitude };
+  return { lat: value.lat, lng: value.lng };
+}
+
+/** Encodes a path with Google's encoded polyline algorithm (precision 1e5). */
+export function encodePolyline(path: LatLngLiteral[]): string {
+  let result = "";
+  let prevLat = 0;
+  let prevLng = 0;
+
+  const encodeValue = (value: number) => {
+    let v = value < 0 ? ~(value << 1) : value << 1;
+    while (v >= 0x20) {
+      result += String.fromCharCode((0x20 | (v & 0x1f)) + 63);
+      v >>= 5;
+    }
+    result += String.fromCharCode(v + 63);
+  };
+
+  for (const point of path) {
+    const lat = Math.round(point.lat * 1e5);
+    const lng = Math.round(point.lng * 1e5);
+    encodeValue(lat - prevLat);
+    encodeValue(lng - prevLng);
+    prevLat = lat;
+    prevLng = lng;
+  }
+
+  return result;
+}
+
+/** Decodes a Google encoded polyline into a list of points. */
+export function decodePolyline(encoded: string): LatLngLiteral[] {
+  const points: LatLngLiteral[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const decodeValue = () => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20 && index < encoded.length);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += decodeValue();
+    lng += decodeValue();
+    points.push({ lat: lat / 1e5, lng: lng / 1e5 });
+  }
+
+  return points;
+}
+
+/**
+ * Evenly spaced points along a path, each with its distance in meters from the start.
+ * The first and last points are always the path's endpoints.
+ */
+export function resamplePath(path: LatLngLiteral[], samples: number): Array<{ location: LatLngLiteral; distance: number }> {
+  const cumulative = [0];
+  for (let i = 1; i < path.length; i++) cumulative.push(cumulative[i - 1] + haversineDistance(path[i - 1], path[i]));
+  const total = cumulative[cumulative.length - 1];
+
+  const result: Array<{ location: LatLngLiteral; distance: number }> = [];
+  let segment = 1;
+  for (let i = 0; i < samples; i++) {
+    const distance = samples === 1 ? 0 : (total * i) / (samples - 1);
+    while (segment < path.length - 1 && cumulative[segment] < distance) segment++;
+    const from = path[segment - 1] ?? path[0];
+    const to = path[segment] ?? from;
+    const length = cumulative[segment] - cumulative[segment - 1];
+    const t = length > 0 ? Math.min(1, Math.max(0, (distance - cumulative[segment - 1]) / length)) : 0;
+    result.push({ location: { lat: from.lat + (to.lat - from.lat) * t, lng: from.lng + (to.lng - from.lng) * t }, distance });
+  }
+  return result;
+}
+
+/** The point `distance` meters from `origin` in the direction `bearing` (degrees clockwise from north). */
+export function destinationPoint(origin: LatLngLiteral, bearing: number, distance: number): LatLngLiteral {
+  const angular = distance / EARTH_RADIUS_METERS;
+  const theta = toRadians(bearing);
+  const lat1 = toRadians(origin.lat);
+  const lng1 = toRadians(origin.lng);
+  const lat2 = Math.asin(Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(theta));
+  const lng2 = lng1 + Math.atan2(Math.sin(theta) * Math.sin(angular) * Math.cos(lat1), Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2));
+  return { lat: toDegrees(lat2), lng: ((toDegrees(lng2) + 540) % 360) - 180 };
+}
+
+/**
+ * Area of a simple polygon in square meters, using an equirectangular projection
+ * around its first vertex. Accurate enough for city-sized areas.
+ */
+export function polygonArea(ring: LatLngLiteral[]): number {
+  if (ring.length < 3) return 0;
+  const reference = ring[0];
+  const scale = Math.cos(toRadians(reference.lat));
+  const points = ring.map((point) => ({
+    x: toRadians(point.lng - reference.lng) * scale * EARTH_RADIUS_METERS,
+    y: toRadians(point.lat - reference.lat) * EARTH_RADIUS_METERS,
+  }));
+  let twiceArea = 0;
+  for (let i = 0; i < points.length; i++) {
+    const next = points[(i + 1) % points.length];
+    twiceArea += points[i].x * next.y - next.x * points[i].y;
+  }
+  return Math.abs(twiceArea) / 2;
+}
+
+/** Geographic midpoint of `points`: their center of mass on the sphere, projected back onto the surface. */
+export function geographicMidpoint(points: LatLngLiteral[]): LatLngLiteral {
+  let x = 0;
+  let y = 0;
+  let z = 0;
+  for (const point of points) {
+    const lat = toRadians(point.lat);
+    const lng = toRadians(point.lng);
+    x += Math.cos(lat) * Math.cos(lng);
+    y += Math.cos(lat) * Math.sin(lng);
+    z += Math.sin(lat);
+  }
+  return { lat: toDegrees(Math.atan2(z, Math.hypot(x, y))), lng: toDegrees(Math.atan2(y, x)) };
+}
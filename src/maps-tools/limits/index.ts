@@ -0,0 +1,39 @@
+import { createLogger, Logger } from "../logger.js";
+import { MapsProvider } from "../providers/types.js";
+import { ApiLimiter, DEFAULT_RETRY_OPTIONS, LimitedMapsProvider, MAPS_APIS, MapsApi, RetryOptions } from "./limitedProvider.js";
+import { BudgetLimits, RequestBudget, TokenBucket } from "./rateLimiter.js";
+
+export { DEFAULT_RETRY_OPTIONS, LimitedMapsProvider, MAPS_APIS } from "./limitedProvider.js";
+export type { MapsApi, RetryOptions } from "./limitedProvider.js";
+export { RequestBudget, TokenBucket } from "./rateLimiter.js";
+export type { BudgetLimits } from "./rateLimiter.js";
+
+/** Google's default quota is 3,000 requests per minute for each of these APIs. */
+export const DEFAULT_RATE_LIMIT = 50;
+
+export interface LimitsConfig {
+  retry: RetryOptions;
+  /** Requests per second per API, `DEFAULT_RATE_LIMIT` when missing; 0 disables the limit. */
+  rateLimits: Partial<Record<MapsApi, number>>;
+  budgets: Partial<Record<MapsApi, BudgetLimits>>;
+}
+
+export const DEFAULT_LIMITS_CONFIG: LimitsConfig = { retry: DEFAULT_RETRY_OPTIONS, rateLimits: {}, budgets: {} };
+
+function limiters(config: LimitsConfig): Partial<Record<MapsApi, ApiLimiter>> {
+  const result: Partial<Record<MapsApi, ApiLimiter>> = {};
+  for (const api of MAPS_APIS) {
+    const rate = config.rateLimits[api] ?? DEFAULT_RATE_LIMIT;
+    const budget = config.budgets[api];
+    result[api] = {
+      bucket: rate > 0 ? new TokenBucket(rate) : undefined,
+      budget: budget?.daily !== undefined || budget?.monthly !== undefined ? new RequestBudget(api, budget) : undefined,
+    };
+  }
+  return result;
+}
+
+/** Wraps `provider` with the configured retries, rate limits and budgets. */
+export function withLimits(provider: MapsProvider, config: LimitsConfig = DEFAULT_LIMITS_CONFIG, logger: Logger = createLogger()): MapsProvider {
+  return new LimitedMapsProvider(provider, limiters(config), config.retry, logger);
+}
@@ -0,0 +1,129 @@
+import {
+  DirectionsRequest,
+  DistanceMatrixRequest,
+  GeocodeRequest,
+  PlaceAutocompleteRequest,
+  PlaceDetailsRequest,
+  PlacePhotoRequest,
+  PlaceQueryAutocompleteRequest,
+  PlacesNearbyRequest,
+  ReverseGeocodeRequest,
+  Status,
+  TextSearchRequest,
+} from "@googlemaps/google-maps-services-js";
+import { toMapsError } from "../errors.js";
+import { createLogger, Logger } from "../logger.js";
+import { ElevationParams, MapsProvider, ProviderParams } from "../providers/types.js";
+import { RequestBudget, TokenBucket } from "./rateLimiter.js";
+
+/** Google APIs that are rate limited and billed separately. */
+export type MapsApi = "geocoding" | "places" | "distanceMatrix" | "directions" | "elevation";
+
+export const MAPS_APIS: MapsApi[] = ["geocoding", "places", "distanceMatrix", "directions", "elevation"];
+
+export interface RetryOptions {
+  /** Additional attempts after the first one; 0 disables retries. */
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = { retries: 3, baseDelayMs: 200, maxDelayMs: 5000 };
+
+export interface ApiLimiter {
+  bucket?: TokenBucket;
+  budget?: RequestBudget;
+}
+
+/** Statuses that Google documents as transient; the same request may succeed when repeated. */
+const RETRYABLE_STATUSES = new Set<string>([Status.OVER_QUERY_LIMIT, Status.UNKNOWN_ERROR]);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Decorates a provider with per-API rate limits, request budgets and retries with exponential backoff. */
+export class LimitedMapsProvider implements MapsProvider {
+  readonly name: string;
+  readonly pageTokenDelayMs?: number;
+
+  constructor(
+    private readonly provider: MapsProvider,
+    private readonly limiters: Partial<Record<MapsApi, ApiLimiter>> = {},
+    private readonly retry: RetryOptions = DEFAULT_RETRY_OPTIONS,
+    private readonly logger: Logger = createLogger()
+  ) {
+    this.name = provider.name;
+    this.pageTokenDelayMs = provider.pageTokenDelayMs;
+  }
+
+  /** Full jitter: a random delay up to the exponentially growing cap. */
+  private backoff(attempt: number) {
+    return Math.random() * Math.min(this.retry.maxDelayMs, this.retry.baseDelayMs * 2 ** attempt);
+  }
+
+  private async limited<T>(api: MapsApi, fetch: () => Promise<T>): Promise<T> {
+    const limiter = this.limiters[api];
+    for (let attempt = 0; ; attempt++) {
+      // Every attempt is a billed request, so retries count against the budget too. This is
+      // the only retry layer: the Google provider turns off its client's built-in retries.
+      limiter?.budget?.consume();
+      await limiter?.bucket?.take();
+
+      const canRetry = attempt < this.retry.retries;
+      try {
+        const response = await fetch();
+        // Photos have no status; their failures arrive as HTTP errors.
+        const status = (response as { status?: string }).status;
+        if (!canRetry || !status || !RETRYABLE_STATUSES.has(status)) return response;
+        this.logger.warn(`${api} request returned ${status}, retrying`);
+      } catch (error) {
+        if (!canRetry || !toMapsError(error, api).retryable) throw error;
+        this.logger.warn(`${api} request failed, retrying:`, error);
+      }
+      await sleep(this.backoff(attempt));
+    }
+  }
+
+  geocode(params: ProviderParams<GeocodeRequest>) {
+    return this.limited("geocoding", () => this.provider.geocode(params));
+  }
+
+  reverseGeocode(params: ProviderParams<ReverseGeocodeRequest>) {
+    return this.limited("geocoding", () => this.provider.reverseGeocode(params));
+  }
+
+  placesNearby(params: ProviderParams<PlacesNearbyRequest>) {
+    return this.limited("places", () => this.provider.placesNearby(params));
+  }
+
+  textSearch(params: ProviderParams<TextSearchRequest>) {
+    return this.limited("places", () => this.provider.textSearch(params));
+  }
+
+  placeDetails(params: ProviderParams<PlaceDetailsRequest>) {
+    return this.limited("places", () => this.provider.placeDetails(params));
+  }
+
+  placePhoto(params: ProviderParams<PlacePhotoRequest>) {
+    return this.limited("places", () => this.provider.placePhoto(params));
+  }
+
+  placeAutocomplete(params: ProviderParams<PlaceAutocompleteRequest>) {
+    return this.limited("places", () => this.provider.placeAutocomplete(params));
+  }
+
+  placeQueryAutocomplete(params: ProviderParams<PlaceQueryAutocompleteRequest>) {
+    return this.limited("places", () => this.provider.placeQueryAutocomplete(params));
+  }
+
+  distanceMatrix(params: ProviderParams<DistanceMatrixRequest>) {
+    return this.limited("distanceMatrix", () => this.provider.distanceMatrix(params));
+  }
+
+  directions(params: ProviderParams<DirectionsRequest>) {
+    return this.limited("directions", () => this.provider.directions(params));
+  }
+
+  elevation(params: ElevationParams) {
+    return this.limited("elevation", () => this.provider.elevation(params));
+  }
+}
@@ -0,0 +1,68 @@
+import { BudgetExceededError } from "../errors.js";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Token bucket allowing `ratePerSecond` requests on average with bursts up to `capacity`.
+ * Callers that find the bucket empty reserve a token and wait until it has refilled.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(
+    private readonly ratePerSecond: number,
+    private readonly capacity: number = ratePerSecond
+  ) {
+    this.tokens = capacity;
+  }
+
+  async take(): Promise<void> {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updatedAt) / 1000) * this.ratePerSecond);
+    this.updatedAt = now;
+
+    this.tokens -= 1;
+    if (this.tokens < 0) await sleep((-this.tokens / this.ratePerSecond) * 1000);
+  }
+}
+
+export interface BudgetLimits {
+  daily?: number;
+  monthly?: number;
+}
+
+/** Counts requests per UTC day and month and refuses them once a limit is reached. */
+export class RequestBudget {
+  private day = "";
+  private month = "";
+  private dailyCount = 0;
+  private monthlyCount = 0;
+
+  constructor(
+    private readonly api: string,
+    private readonly limits: BudgetLimits,
+    private readonly now: () => Date = () => new Date()
+  ) {}
+
+  consume(): void {
+    const today = this.now().toISOString().slice(0, 10);
+    if (today !== this.day) {
+      this.day = today;
+      this.dailyCount = 0;
+    }
+    if (today.slice(0, 7) !== this.month) {
+      this.month = today.slice(0, 7);
+      this.monthlyCount = 0;
+    }
+
+    if (this.limits.daily !== undefined && this.dailyCount >= this.limits.daily) {
+      throw new BudgetExceededError(`Daily request budget of ${this.limits.daily} for the ${this.api} API is exhausted`, "resets at 00:00 UTC");
+    }
+    if (this.limits.monthly !== undefined && this.monthlyCount >= this.limits.monthly) {
+      throw new BudgetExceededError(`Monthly request budget of ${this.limits.monthly} for the ${this.api} API is exhausted`, "resets on the 1st of the month (UTC)");
+    }
+    this.dailyCount++;
+    this.monthlyCount++;
+  }
+}
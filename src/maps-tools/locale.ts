@@ -0,0 +1,32 @@
+import { Language } from "@googlemaps/google-maps-services-js";
+import { InvalidArgumentError } from "./errors.js";
+
+export interface LocaleOptions {
+  language?: Language;
+  region?: string;
+}
+
+const LANGUAGES = new Set<string>(Object.values(Language));
+
+export function parseLanguage(value: string): Language {
+  if (!LANGUAGES.has(value)) {
+    throw new InvalidArgumentError(`Unsupported language '${value}'. Use a code supported by Google Maps, e.g. en, de, ja, zh-TW`);
+  }
+  return value as Language;
+}
+
+/** Regions are two-letter ccTLD codes ("uk", not "gb"). */
+export function parseRegion(value: string): string {
+  if (!/^[a-z]{2}$/i.test(value)) {
+    throw new InvalidArgumentError(`Invalid region '${value}'. Use a two-letter ccTLD code, e.g. tw, de, jp`);
+  }
+  return value.toLowerCase();
+}
+
+/** Validates optional language/region tool arguments. */
+export function parseLocale(locale: { language?: string; region?: string } = {}): LocaleOptions {
+  return {
+    language: locale.language ? parseLanguage(locale.language) : undefined,
+    region: locale.region ? parseRegion(locale.region) : undefined,
+  };
+}
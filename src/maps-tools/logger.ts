@@ -0,0 +1,22 @@
+export type LogLevel = "debug" | "info" | "warn" | "error" | "silent";
+
+/** Least to most severe; a logger writes its own level and everything after it. */
+export const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error", "silent"];
+
+export interface Logger {
+  debug(...args: unknown[]): void;
+  info(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+}
+
+/** Logs to stderr, since stdout carries the protocol messages of the stdio transport. */
+export function createLogger(level: LogLevel = "info"): Logger {
+  const threshold = LOG_LEVELS.indexOf(level);
+  const at =
+    (messageLevel: LogLevel) =>
+    (...args: unknown[]) => {
+      if (LOG_LEVELS.indexOf(messageLevel) >= threshold) console.error(...args);
+    };
+  return { debug: at("debug"), info: at("info"), warn: at("warn"), error: at("error") };
+}
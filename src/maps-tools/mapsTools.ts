@@ -1,3 +1,301 @@
+const LANGUAGE_PROPERTY = {
+  type: "string",
+  description: "Language code for results (e.g., en, de, ja, zh-TW); defaults to the server language",
+};
+
+const REGION_PROPERTY = {
+  type: "string",
+  description: "Region code as a two-letter ccTLD (e.g., tw, de, jp) used to bias results; defaults to the server region",
+};
+
+/** Options shared by the Directions and Distance Matrix tools. */
+const ROUTE_OPTION_PROPERTIES = {
+  avoid: {
+    type: "array",
+    items: {
+      type: "string",
+      enum: ["tolls", "highways", "ferries", "indoor"],
+    },
+    description: "Features to avoid",
+  },
+  departureTime: {
+    type: ["string", "number"],
+    description: "Desired departure time: 'now', a Unix timestamp (seconds) or an ISO 8601 date. Enables traffic-aware durations when driving",
+  },
+  arrivalTime: {
+    type: ["string", "number"],
+    description: "Desired arrival time for transit: a Unix timestamp (seconds) or an ISO 8601 date. Cannot be combined with departureTime",
+  },
+  trafficModel: {
+    type: "string",
+    enum: ["best_guess", "pessimistic", "optimistic"],
+    description: "Assumptions used to predict time in traffic; requires departureTime",
+  },
+  units: {
+    type: "string",
+    enum: ["metric", "imperial"],
+    description: "Unit system for distance text",
+  },
+  transitMode: {
+    type: "array",
+    items: {
+      type: "string",
+      enum: ["bus", "subway", "train", "tram", "rail"],
+    },
+    description: "Preferred transit vehicles (transit mode only)",
+  },
+  transitRoutingPreference: {
+    type: "string",
+    enum: ["less_walking", "fewer_transfers"],
+    description: "Transit route preference (transit mode only)",
+  },
+};
+
+/*
+ * Output schemas describe each tool's `structuredContent` and mirror the interfaces
+ * in `results.ts`.
+ */
+
+const LAT_LNG_SCHEMA = {
+  type: "object",
+  properties: {
+    lat: { type: "number" },
+    lng: { type: "number" },
+  },
+  required: ["lat", "lng"],
+};
+
+const TEXT_VALUE_SCHEMA = {
+  type: "object",
+  properties: {
+    value: { type: "number" },
+    text: { type: "string" },
+  },
+  required: ["value", "text"],
+};
+
+const PLACE_SUMMARY_SCHEMA = {
+  type: "object",
+  properties: {
+    name: { type: "string" },
+    place_id: { type: "string" },
+    address: { type: "string" },
+    location: LAT_LNG_SCHEMA,
+    rating: { type: "number" },
+    total_ratings: { type: "number" },
+    open_now: { type: "boolean" },
+  },
+  required: ["name", "place_id", "location"],
+};
+
+const OPENING_TIME_SCHEMA = {
+  type: "object",
+  properties: {
+    day: { type: "number", description: "0 (Sunday) to 6 (Saturday)" },
+    time: { type: "string", description: "Local 24-hour time as HHMM" },
+  },
+  required: ["day", "time"],
+};
+
+const NEXT_PAGE_TOKEN_PROPERTY = {
+  type: "string",
+  description: "Pass as pageToken to fetch the next page of results",
+};
+
+const MATRIX_SCHEMA = {
+  type: "array",
+  items: {
+    type: "array",
+    items: { ...TEXT_VALUE_SCHEMA, type: ["object", "null"] },
+  },
+  description: "Rows follow origin_addresses, columns destination_addresses; null where no route exists",
+};
+
+const GEOCODE_CANDIDATE_SCHEMA = {
+  type: "object",
+  properties: {
+    location: LAT_LNG_SCHEMA,
+    formatted_address: { type: "string" },
+    place_id: { type: "string" },
+    location_type: {
+      type: "string",
+      description: "Precision of location: ROOFTOP, RANGE_INTERPOLATED, GEOMETRIC_CENTER or APPROXIMATE",
+    },
+    types: { type: "array", items: { type: "string" } },
+    viewport: {
+      type: "object",
+      properties: {
+        northeast: LAT_LNG_SCHEMA,
+        southwest: LAT_LNG_SCHEMA,
+      },
+      required: ["northeast", "southwest"],
+    },
+    partial_match: { type: "boolean", description: "Only part of the input was matched" },
+    address_components: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          long_name: { type: "string" },
+          short_name: { type: "string" },
+          types: { type: "array", items: { type: "string" } },
+        },
+        required: ["long_name", "short_name", "types"],
+      },
+    },
+  },
+  required: ["location", "formatted_address", "place_id", "location_type", "types", "address_components"],
+};
+
+const GEOCODE_RESULT_SCHEMA = {
+  type: "object",
+  properties: {
+    results: {
+      type: "array",
+      items: GEOCODE_CANDIDATE_SCHEMA,
+      description: "All candidates, best match first",
+    },
+  },
+  required: ["results"],
+};
+
+/** Forward geocoding filters, shared by the single and batch tools. */
+const GEOCODE_OPTION_PROPERTIES = {
+  components: {
+    type: "object",
+    properties: {
+      country: { type: "string", description: "Country name or two-letter ISO 3166-1 code" },
+      postalCode: { type: "string" },
+      administrativeArea: { type: "string", description: "State, province or other administrative area" },
+      locality: { type: "string", description: "City or town" },
+      route: { type: "string", description: "Street name" },
+    },
+    description: "Restrict results to these address components, e.g. { country: 'US', postalCode: '62701' }",
+  },
+  bounds: {
+    type: "object",
+    properties: {
+      south: { type: "number", minimum: -90, maximum: 90 },
+      west: { type: "number", minimum: -180, maximum: 180 },
+      north: { type: "number", minimum: -90, maximum: 90 },
+      east: { type: "number", minimum: -180, maximum: 180 },
+    },
+    required: ["south", "west", "north", "east"],
+    description: "Prefer results inside this box (a bias, not a restriction)",
+  },
+};
+
+/** Reverse geocoding filters, shared by the single and batch tools. */
+const REVERSE_GEOCODE_OPTION_PROPERTIES = {
+  resultType: {
+    type: "array",
+    items: { type: "string" },
+    description: "Only return addresses of these types, e.g. street_address, postal_code, locality, country",
+  },
+  locationType: {
+    type: "array",
+    items: {
+      type: "string",
+      enum: ["ROOFTOP", "RANGE_INTERPOLATED", "GEOMETRIC_CENTER", "APPROXIMATE"],
+    },
+    description: "Only return addresses with these location precisions",
+  },
+};
+
+const LOCATION_ITEM_SCHEMA = {
+  type: "object",
+  properties: {
+    latitude: { type: "number" },
+    longitude: { type: "number" },
+  },
+  required: ["latitude", "longitude"],
+};
+
+/** Output of the batch tools: per-input outcomes in input order. */
+function batchResultSchema(input: object, result: object) {
+  return {
+    type: "object",
+    properties: {
+      results: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            input,
+            status: { type: "string", description: "OK or the error code of this input" },
+            result,
+            error: {
+              type: "object",
+              properties: {
+                code: { type: "string" },
+                message: { type: "string" },
+                retryable: { type: "boolean" },
+                hint: { type: "string" },
+              },
+              required: ["code", "message", "retryable"],
+            },
+          },
+          required: ["input", "status"],
+        },
+      },
+      succeeded: { type: "number" },
+      failed: { type: "number" },
+      unique_inputs: { type: "number", description: "Distinct inputs actually looked up" },
+    },
+    required: ["results", "succeeded", "failed", "unique_inputs"],
+  };
+}
+
+const CONCURRENCY_PROPERTY = {
+  type: "integer",
+  description: "How many lookups run at the same time",
+  minimum: 1,
+  maximum: 10,
+  default: 5,
+};
+
+const ROUTE_STEP_SCHEMA = {
+  type: "object",
+  properties: {
+    instruction: { type: "string" },
+    travel_mode: { type: "string" },
+    maneuver: { type: "string" },
+    distance: TEXT_VALUE_SCHEMA,
+    duration: TEXT_VALUE_SCHEMA,
+    transit: {
+      type: "object",
+      properties: {
+        line: { type: "string" },
+        vehicle: { type: "string" },
+        agency: { type: "string" },
+        headsign: { type: "string" },
+        departure_stop: { type: "string" },
+        arrival_stop: { type: "string" },
+        departure_time: { type: "string" },
+        arrival_time: { type: "string" },
+        num_stops: { type: "number" },
+      },
+      required: ["line", "vehicle", "departure_stop", "arrival_stop", "num_stops"],
+    },
+    start_location: LAT_LNG_SCHEMA,
+    end_location: LAT_LNG_SCHEMA,
+    polyline: { type: "string" },
+    steps: {
+      type: "array",
+      items: { type: "object" },
+      description: "Sub-steps of the same shape (full verbosity only)",
+    },
+  },
+  required: ["instruction", "travel_mode", "distance", "duration"],
+};
+
+const ROUTE_TOTAL_PROPERTIES = {
+  summary: { type: "string" },
+  total_distance: TEXT_VALUE_SCHEMA,
+  total_duration: TEXT_VALUE_SCHEMA,
+  total_duration_in_traffic: TEXT_VALUE_SCHEMA,
+};
+
 export const SEARCH_NEARBY_TOOL = {
   name: "search_nearby",
   description: "Search for nearby places",
@@ -7,7 +305,7 @@ export const SEARCH_NEARBY_TOOL = {
       center: {
         type: "object",
         properties: {
-          value: { type: "string", description: "Address, landmark name, or latitude/longitude coordinates (format: lat,lng)" },
+          value: { type: "string", description: "Address, landmark name, or latitude/longitude coordinates (format: lat,lng)", minLength: 1 },
           isCoordinates: { type: "boolean", description: "Whether the value is coordinates", default: false },
         },
         required: ["value"],
@@ -20,6 +318,8 @@ export const SEARCH_NEARBY_TOOL = {
       radius: {
         type: "number",
         description: "Search radius (meters)",
+        minimum: 1,
+        maximum: 50000,
         default: 1000,
       },
       openNow: {
@@ -33,43 +333,337 @@ export const SEARCH_NEARBY_TOOL = {
         minimum: 0,
         maximum: 5,
       },
+      maxResults: {
+        type: "integer",
+        description:
+          "Maximum number of places to return; further result pages are fetched automatically as needed (Google returns at most 60). A hard cap: when it cuts a page of 20 short, the rest of that page is dropped and no next_page_token is returned, so use multiples of 20 to page through all results",
+        minimum: 1,
+        maximum: 60,
+        default: 20,
+      },
+      rankBy: {
+        type: "string",
+        enum: ["prominence", "distance"],
+        description: "Result order; 'distance' ignores radius and requires a keyword",
+        default: "prominence",
+      },
+      pageToken: {
+        type: "string",
+        description: "next_page_token from a previous response to continue where it left off (pass the same center and filters)",
+      },
+      language: LANGUAGE_PROPERTY,
+      region: REGION_PROPERTY,
     },
     required: ["center"],
   },
+  outputSchema: {
+    type: "object",
+    properties: {
+      location: {
+        type: "object",
+        properties: {
+          ...LAT_LNG_SCHEMA.properties,
+          formatted_address: { type: "string" },
+          place_id: { type: "string" },
+        },
+        required: ["lat", "lng"],
+        description: "Resolved search center",
+      },
+      places: { type: "array", items: PLACE_SUMMARY_SCHEMA },
+      next_page_token: NEXT_PAGE_TOKEN_PROPERTY,
+    },
+    required: ["location", "places"],
+  },
+};
+
+export const SEARCH_PLACES_TOOL = {
+  name: "maps_search_places",
+  description: "Search for places using a free-text query (e.g., 'Blue Bottle Coffee in Tokyo'); no center point required",
+  inputSchema: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        description: "Free-text search query, may include a location (e.g., 'pizza in New York')",
+        minLength: 1,
+      },
+      location: {
+        type: "object",
+        properties: {
+          value: { type: "string", description: "Address, landmark name, or latitude/longitude coordinates (format: lat,lng)", minLength: 1 },
+          isCoordinates: { type: "boolean", description: "Whether the value is coordinates", default: false },
+        },
+        required: ["value"],
+        description: "Optional point to bias results towards",
+      },
+      radius: {
+        type: "number",
+        description: "Bias radius around location (meters)",
+        minimum: 1,
+        maximum: 50000,
+      },
+      type: {
+        type: "string",
+        description: "Restrict results to a place type (e.g., restaurant, cafe, museum)",
+      },
+      region: REGION_PROPERTY,
+      minPrice: {
+        type: "number",
+        description: "Minimum price level (0 = free, 4 = very expensive)",
+        minimum: 0,
+        maximum: 4,
+      },
+      maxPrice: {
+        type: "number",
+        description: "Maximum price level (0 = free, 4 = very expensive)",
+        minimum: 0,
+        maximum: 4,
+      },
+      pageToken: {
+        type: "string",
+        description: "next_page_token from a previous response to fetch the next page (up to 3 pages; pass the same query)",
+      },
+      language: LANGUAGE_PROPERTY,
+    },
+    required: ["query"],
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      places: { type: "array", items: PLACE_SUMMARY_SCHEMA },
+      next_page_token: NEXT_PAGE_TOKEN_PROPERTY,
+    },
+    required: ["places"],
+  },
+};
+
+/** Bias location shared by both autocomplete tools. */
+const AUTOCOMPLETE_BIAS_PROPERTIES = {
+  location: {
+    type: "object",
+    properties: {
+      value: { type: "string", description: "Address, landmark name, or latitude/longitude coordinates (format: lat,lng)", minLength: 1 },
+      isCoordinates: { type: "boolean", description: "Whether the value is coordinates", default: false },
+    },
+    required: ["value"],
+    description: "Optional point to prefer predictions around",
+  },
+  radius: {
+    type: "number",
+    description: "Bias radius around location (meters, default 20000)",
+    minimum: 1,
+    maximum: 50000,
+  },
+};
+
+export const AUTOCOMPLETE_TOOL = {
+  name: "maps_autocomplete",
+  description:
+    "Resolve a partial or misspelled place name or address to place predictions (e.g., 'taipei 10' → Taipei 101). " +
+    "Reuse the returned session_token for the following keystrokes and pass it to get_place_details for the chosen place, so the session is billed as one request",
+  inputSchema: {
+    type: "object",
+    properties: {
+      input: {
+        type: "string",
+        description: "Text typed so far",
+        minLength: 1,
+      },
+      sessionToken: {
+        type: "string",
+        description: "session_token of the previous call in this session; omit to start a new session",
+        minLength: 1,
+      },
+      ...AUTOCOMPLETE_BIAS_PROPERTIES,
+      strictBounds: {
+        type: "boolean",
+        description: "Only return places within radius of location instead of preferring them",
+        default: false,
+      },
+      countries: {
+        type: "array",
+        items: { type: "string", pattern: "^[A-Za-z]{2}$" },
+        maxItems: 5,
+        description: "Restrict predictions to these countries (two-letter ISO 3166-1 codes, e.g. ['tw', 'jp'])",
+      },
+      types: {
+        type: "string",
+        enum: ["geocode", "address", "establishment", "(regions)", "(cities)"],
+        description: "Restrict predictions to addresses, businesses, regions or cities",
+      },
+      language: LANGUAGE_PROPERTY,
+    },
+    required: ["input"],
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      session_token: { type: "string", description: "Pass as sessionToken to further calls of this session and to get_place_details" },
+      predictions: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            description: { type: "string" },
+            place_id: { type: "string" },
+            main_text: { type: "string" },
+            secondary_text: { type: "string" },
+            types: { type: "array", items: { type: "string" } },
+            distance_meters: { type: "number", description: "Straight-line distance from location" },
+          },
+          required: ["description", "place_id", "main_text", "types"],
+        },
+      },
+    },
+    required: ["session_token", "predictions"],
+  },
+};
+
+export const QUERY_AUTOCOMPLETE_TOOL = {
+  name: "maps_query_autocomplete",
+  description:
+    "Suggest complete search queries for partial input (e.g., 'pizza near par' → 'pizza near Paris'), including matching places. Billed per request; there are no sessions",
+  inputSchema: {
+    type: "object",
+    properties: {
+      input: {
+        type: "string",
+        description: "Partial search query",
+        minLength: 1,
+      },
+      ...AUTOCOMPLETE_BIAS_PROPERTIES,
+      language: LANGUAGE_PROPERTY,
+    },
+    required: ["input"],
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      predictions: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            description: { type: "string", description: "Suggested query, or a place description when place_id is set" },
+            place_id: { type: "string" },
+            types: { type: "array", items: { type: "string" } },
+          },
+          required: ["description"],
+        },
+      },
+    },
+    required: ["predictions"],
+  },
 };
 
 export const GEOCODE_TOOL = {
   name: "maps_geocode",
-  description: "Convert an address to coordinates",
+  description:
+    "Convert an address to coordinates. Returns all candidates with their types and location precision, so ambiguous inputs can be told apart",
   inputSchema: {
     type: "object",
     properties: {
       address: {
         type: "string",
-        description: "Address or landmark name to convert",
+        description: "Address or landmark name to convert; may be omitted when components are given",
+        minLength: 1,
       },
+      ...GEOCODE_OPTION_PROPERTIES,
+      language: LANGUAGE_PROPERTY,
+      region: REGION_PROPERTY,
     },
-    required: ["address"],
   },
+  outputSchema: GEOCODE_RESULT_SCHEMA,
 };
 
 export const REVERSE_GEOCODE_TOOL = {
   name: "maps_reverse_geocode",
-  description: "Convert coordinates to an address",
+  description: "Convert coordinates to addresses, from the most to the least specific one (street address up to country)",
   inputSchema: {
     type: "object",
     properties: {
       latitude: {
         type: "number",
         description: "Latitude",
+        minimum: -90,
+        maximum: 90,
       },
       longitude: {
         type: "number",
         description: "Longitude",
+        minimum: -180,
+        maximum: 180,
       },
+      ...REVERSE_GEOCODE_OPTION_PROPERTIES,
+      language: LANGUAGE_PROPERTY,
     },
     required: ["latitude", "longitude"],
   },
+  outputSchema: GEOCODE_RESULT_SCHEMA,
+};
+
+export const BATCH_GEOCODE_TOOL = {
+  name: "maps_batch_geocode",
+  description:
+    "Convert many addresses to coordinates in one call, keeping the best match per address. Each address gets its own status, so addresses that cannot be found do not fail the batch",
+  inputSchema: {
+    type: "object",
+    properties: {
+      addresses: {
+        type: "array",
+        items: { type: "string", minLength: 1 },
+        description: "Addresses or landmark names to convert; duplicates are looked up once",
+        minItems: 1,
+        maxItems: 500,
+      },
+      ...GEOCODE_OPTION_PROPERTIES,
+      concurrency: CONCURRENCY_PROPERTY,
+      language: LANGUAGE_PROPERTY,
+      region: REGION_PROPERTY,
+    },
+    required: ["addresses"],
+  },
+  outputSchema: batchResultSchema({ type: "string" }, GEOCODE_CANDIDATE_SCHEMA),
+};
+
+export const BATCH_REVERSE_GEOCODE_TOOL = {
+  name: "maps_batch_reverse_geocode",
+  description:
+    "Convert many coordinates to addresses in one call, keeping the most specific address per location. Each location gets its own status, so locations without an address do not fail the batch",
+  inputSchema: {
+    type: "object",
+    properties: {
+      locations: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            latitude: {
+              type: "number",
+              description: "Latitude",
+              minimum: -90,
+              maximum: 90,
+            },
+            longitude: {
+              type: "number",
+              description: "Longitude",
+              minimum: -180,
+              maximum: 180,
+            },
+          },
+          required: ["latitude", "longitude"],
+        },
+        description: "Locations to convert; duplicates are looked up once",
+        minItems: 1,
+        maxItems: 500,
+      },
+      ...REVERSE_GEOCODE_OPTION_PROPERTIES,
+      concurrency: CONCURRENCY_PROPERTY,
+      language: LANGUAGE_PROPERTY,
+    },
+    required: ["locations"],
+  },
+  outputSchema: batchResultSchema(LOCATION_ITEM_SCHEMA, GEOCODE_CANDIDATE_SCHEMA),
 };
 
 export const DISTANCE_MATRIX_TOOL = {
@@ -83,14 +677,18 @@ export const DISTANCE_MATRIX_TOOL = {
         items: {
           type: "string",
         },
-        description: "List of origin addresses or coordinates",
+        description: "List of origin addresses or coordinates (max 25)",
+        minItems: 1,
+        maxItems: 25,
       },
       destinations: {
         type: "array",
         items: {
           type: "string",
         },
-        description: "List of destination addresses or coordinates",
+        description: "List of destination addresses or coordinates (max 25)",
+        minItems: 1,
+        maxItems: 25,
       },
       mode: {
         type: "string",
@@ -98,24 +696,256 @@ export const DISTANCE_MATRIX_TOOL = {
         description: "Mode of transportation",
         default: "driving",
       },
+      ...ROUTE_OPTION_PROPERTIES,
+      language: LANGUAGE_PROPERTY,
+      region: REGION_PROPERTY,
     },
     required: ["origins", "destinations"],
   },
+  outputSchema: {
+    type: "object",
+    properties: {
+      distances: MATRIX_SCHEMA,
+      durations: MATRIX_SCHEMA,
+      durations_in_traffic: MATRIX_SCHEMA,
+      origin_addresses: { type: "array", items: { type: "string" } },
+      destination_addresses: { type: "array", items: { type: "string" } },
+    },
+    required: ["distances", "durations", "origin_addresses", "destination_addresses"],
+  },
+};
+
+export const MEETING_PLACE_TOOL = {
+  name: "maps_find_meeting_place",
+  description:
+    "Find places (e.g., a cafe) that are fair to reach for several people: searches around their midpoint and ranks candidates by the longest or total travel time, with each participant's travel time",
+  inputSchema: {
+    type: "object",
+    properties: {
+      participants: {
+        type: "array",
+        items: { type: "string", minLength: 1 },
+        description: "Starting point of each participant: address, landmark name or lat,lng coordinates",
+        minItems: 2,
+        maxItems: 10,
+      },
+      keyword: {
+        type: "string",
+        description: "Kind of place to meet at (e.g., cafe, restaurant, park)",
+        minLength: 1,
+      },
+      mode: {
+        type: "string",
+        enum: ["driving", "walking", "bicycling", "transit"],
+        description: "Mode of transportation of all participants",
+        default: "driving",
+      },
+      objective: {
+        type: "string",
+        enum: ["minimax", "total"],
+        description: "minimax: shortest longest trip, i.e. the fairest place; total: shortest sum of all trips",
+        default: "minimax",
+      },
+      radius: {
+        type: "number",
+        description: "Search radius around the midpoint (meters); by default a quarter of the distance to the farthest participant, 1000 to 50000",
+        minimum: 1,
+        maximum: 50000,
+      },
+      openNow: {
+        type: "boolean",
+        description: "Only consider places that are open now",
+        default: false,
+      },
+      maxResults: {
+        type: "integer",
+        description: "Number of ranked places to return",
+        minimum: 1,
+        maximum: 20,
+        default: 5,
+      },
+      ...ROUTE_OPTION_PROPERTIES,
+      language: LANGUAGE_PROPERTY,
+      region: REGION_PROPERTY,
+    },
+    required: ["participants", "keyword"],
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      midpoint: LAT_LNG_SCHEMA,
+      participants: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            input: { type: "string" },
+            ...LAT_LNG_SCHEMA.properties,
+            formatted_address: { type: "string" },
+            place_id: { type: "string" },
+          },
+          required: ["input", "lat", "lng"],
+        },
+      },
+      objective: { type: "string", enum: ["minimax", "total"] },
+      places: {
+        type: "array",
+        items: {
+          ...PLACE_SUMMARY_SCHEMA,
+          properties: {
+            ...PLACE_SUMMARY_SCHEMA.properties,
+            max_duration: { ...TEXT_VALUE_SCHEMA, description: "Travel time of the participant farthest away" },
+            total_duration: { ...TEXT_VALUE_SCHEMA, description: "Sum of all participants' travel times" },
+            travel_times: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  participant: { type: "string" },
+                  distance: TEXT_VALUE_SCHEMA,
+                  duration: TEXT_VALUE_SCHEMA,
+                },
+                required: ["participant", "distance", "duration"],
+              },
+            },
+          },
+          required: [...PLACE_SUMMARY_SCHEMA.required, "max_duration", "total_duration", "travel_times"],
+        },
+        description: "Best first",
+      },
+      unreachable_candidates: { type: "number", description: "Candidates left out because some participant has no route to them" },
+    },
+    required: ["midpoint", "participants", "objective", "places", "unreachable_candidates"],
+  },
+};
+
+export const REACHABILITY_TOOL = {
+  name: "maps_reachability",
+  description:
+    "Find the area reachable from a location within a travel time budget (isochrone), e.g. everything within 15 minutes by bike. " +
+    "Samples travel times to rings of points around the center and returns the area as a GeoJSON polygon",
+  inputSchema: {
+    type: "object",
+    properties: {
+      center: {
+        type: "object",
+        properties: {
+          value: { type: "string", description: "Address, landmark name, or latitude/longitude coordinates (format: lat,lng)", minLength: 1 },
+          isCoordinates: { type: "boolean", description: "Whether the value is coordinates", default: false },
+        },
+        required: ["value"],
+        description: "Starting point",
+      },
+      maxMinutes: {
+        type: "number",
+        description: "Travel time budget in minutes",
+        minimum: 1,
+        maximum: 180,
+      },
+      mode: {
+        type: "string",
+        enum: ["driving", "walking", "bicycling", "transit"],
+        description: "Mode of transportation",
+        default: "driving",
+      },
+      directions: {
+        type: "integer",
+        description: "Number of directions sampled around the center; more give a finer outline",
+        minimum: 4,
+        maximum: 32,
+        default: 16,
+      },
+      rings: {
+        type: "integer",
+        description: "Number of samples per direction. Each 25 samples take one Distance Matrix request",
+        minimum: 1,
+        maximum: 8,
+        default: 4,
+      },
+      maxRadius: {
+        type: "number",
+        description: "Distance of the outermost samples from the center (meters); estimated from mode and maxMinutes by default",
+        minimum: 100,
+        maximum: 200000,
+      },
+      ...ROUTE_OPTION_PROPERTIES,
+      language: LANGUAGE_PROPERTY,
+      region: REGION_PROPERTY,
+    },
+    required: ["center", "maxMinutes"],
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      center: {
+        type: "object",
+        properties: {
+          ...LAT_LNG_SCHEMA.properties,
+          formatted_address: { type: "string" },
+          place_id: { type: "string" },
+        },
+        required: ["lat", "lng"],
+      },
+      mode: { type: "string" },
+      max_duration: TEXT_VALUE_SCHEMA,
+      sampled_radius: { type: "number", description: "Distance of the outermost samples in meters" },
+      area: {
+        type: "object",
+        description: "GeoJSON Feature whose Polygon geometry outlines the reachable area",
+      },
+      area_km2: { type: "number" },
+      reachable_samples: { type: "number" },
+      limited_by_radius: {
+        type: "boolean",
+        description: "Outermost samples are reachable, so the area may extend further; retry with a larger maxRadius",
+      },
+      samples: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            location: LAT_LNG_SCHEMA,
+            bearing: { type: "number", description: "Degrees clockwise from north" },
+            distance: { type: "number", description: "Straight-line distance from the center in meters" },
+            duration: { ...TEXT_VALUE_SCHEMA, type: ["object", "null"], description: "null where no route exists" },
+            reachable: { type: "boolean" },
+          },
+          required: ["location", "bearing", "distance", "duration", "reachable"],
+        },
+      },
+    },
+    required: ["center", "mode", "max_duration", "sampled_radius", "area", "area_km2", "reachable_samples", "limited_by_radius", "samples"],
+  },
 };
 
 export const DIRECTIONS_TOOL = {
   name: "maps_directions",
-  description: "Get directions between two points",
+  description: "Get directions between two points, optionally via intermediate stops",
   inputSchema: {
     type: "object",
     properties: {
       origin: {
         type: "string",
         description: "Origin address or coordinates",
+        minLength: 1,
       },
       destination: {
         type: "string",
         description: "Destination address or coordinates",
+        minLength: 1,
+      },
+      waypoints: {
+        type: "array",
+        items: {
+          type: "string",
+        },
+        description: "Ordered list of intermediate stops (addresses or coordinates) visited between origin and destination (max 25)",
+        maxItems: 25,
+      },
+      optimizeWaypoints: {
+        type: "boolean",
+        description: "Reorder the waypoints for the shortest route; the chosen order is returned as ordered_waypoints",
+        default: false,
       },
       mode: {
         type: "string",
@@ -123,9 +953,176 @@ export const DIRECTIONS_TOOL = {
         description: "Mode of transportation",
         default: "driving",
       },
+      ...ROUTE_OPTION_PROPERTIES,
+      alternatives: {
+        type: "boolean",
+        description: "Also return summaries of alternative routes",
+        default: false,
+      },
+      verbosity: {
+        type: "string",
+        enum: ["summary", "steps", "full"],
+        description:
+          "Level of detail: 'summary' returns totals and legs, 'steps' adds plain-text turn-by-turn instructions and transit lines/stops, 'full' adds locations, polylines and transit sub-steps",
+        default: "steps",
+      },
+      format: {
+        type: "string",
+        enum: ["json", "geojson", "gpx", "kml"],
+        description:
+          "Also return the route geometry as a GeoJSON FeatureCollection, GPX track or KML document (one line per leg, step starts marked) for rendering on a map",
+        default: "json",
+      },
+      language: LANGUAGE_PROPERTY,
+      region: REGION_PROPERTY,
     },
     required: ["origin", "destination"],
   },
+  outputSchema: {
+    type: "object",
+    properties: {
+      ...ROUTE_TOTAL_PROPERTIES,
+      legs: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            start_address: { type: "string" },
+            end_address: { type: "string" },
+            distance: TEXT_VALUE_SCHEMA,
+            duration: TEXT_VALUE_SCHEMA,
+            duration_in_traffic: TEXT_VALUE_SCHEMA,
+            departure_time: { type: "string" },
+            arrival_time: { type: "string" },
+            start_location: LAT_LNG_SCHEMA,
+            end_location: LAT_LNG_SCHEMA,
+            steps: { type: "array", items: ROUTE_STEP_SCHEMA },
+          },
+          required: ["start_address", "end_address", "distance", "duration"],
+        },
+      },
+      warnings: { type: "array", items: { type: "string" } },
+      overview_polyline: { type: "string" },
+      copyrights: { type: "string" },
+      waypoint_order: { type: "array", items: { type: "number" } },
+      ordered_waypoints: { type: "array", items: { type: "string" } },
+      alternatives: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: ROUTE_TOTAL_PROPERTIES,
+          required: ["summary", "total_distance", "total_duration"],
+        },
+      },
+      geometry: {
+        type: ["object", "string"],
+        description: "GeoJSON FeatureCollection, or GPX/KML document text, when a format was requested",
+      },
+    },
+    required: ["summary", "total_distance", "total_duration", "legs"],
+  },
+};
+
+export const OPTIMIZE_ROUTE_TOOL = {
+  name: "maps_optimize_route",
+  description:
+    "Find the fastest order to visit many stops (up to 50), optionally from a fixed start to a fixed end or back to the start, and within arrival time windows; returns the stops in order with leg and total durations",
+  inputSchema: {
+    type: "object",
+    properties: {
+      stops: {
+        type: "array",
+        items: {
+          type: ["string", "object"],
+          description: "Address, landmark name or lat,lng coordinates, or an object with a location and an arrival time window",
+          minLength: 1,
+          properties: {
+            location: {
+              type: "string",
+              description: "Address, landmark name or lat,lng coordinates",
+              minLength: 1,
+            },
+            arriveAfter: {
+              type: ["string", "number"],
+              description: "Earliest arrival: 'now', a Unix timestamp (seconds) or an ISO 8601 date; arriving earlier means waiting",
+            },
+            arriveBefore: {
+              type: ["string", "number"],
+              description: "Latest arrival: 'now', a Unix timestamp (seconds) or an ISO 8601 date",
+            },
+            serviceMinutes: {
+              type: "number",
+              description: "Time spent at the stop",
+              minimum: 0,
+            },
+          },
+          required: ["location"],
+        },
+        description: "Stops to visit in any order",
+        minItems: 2,
+        maxItems: 50,
+      },
+      start: {
+        type: "string",
+        description: "Fixed starting point; by default the route starts at whichever stop is best",
+        minLength: 1,
+      },
+      end: {
+        type: "string",
+        description: "Fixed final destination; by default the route ends at the last stop",
+        minLength: 1,
+      },
+      returnToStart: {
+        type: "boolean",
+        description: "Return to the start (or the first stop) at the end; cannot be combined with end",
+        default: false,
+      },
+      mode: {
+        type: "string",
+        enum: ["driving", "walking", "bicycling", "transit"],
+        description: "Mode of transportation",
+        default: "driving",
+      },
+      ...ROUTE_OPTION_PROPERTIES,
+      language: LANGUAGE_PROPERTY,
+      region: REGION_PROPERTY,
+    },
+    required: ["stops"],
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      mode: { type: "string" },
+      order: {
+        type: "array",
+        items: { type: "number" },
+        description: "Indices into the input stops in visiting order",
+      },
+      stops: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            stop_index: { type: "number", description: "Index in the input stops; missing for a fixed start or end" },
+            input: { type: "string" },
+            address: { type: "string" },
+            leg_distance: TEXT_VALUE_SCHEMA,
+            leg_duration: TEXT_VALUE_SCHEMA,
+            arrival_time: { type: "string" },
+            departure_time: { type: "string" },
+            wait: { ...TEXT_VALUE_SCHEMA, description: "Waiting for the arrival time window to open" },
+            late: { ...TEXT_VALUE_SCHEMA, description: "Arrival past the time window" },
+          },
+          required: ["input", "address", "arrival_time", "departure_time"],
+        },
+      },
+      total_distance: TEXT_VALUE_SCHEMA,
+      travel_duration: { ...TEXT_VALUE_SCHEMA, description: "Time spent traveling" },
+      total_duration: { ...TEXT_VALUE_SCHEMA, description: "Whole trip including waiting and time at the stops" },
+      late_stops: { type: "number" },
+    },
+    required: ["mode", "order", "stops", "total_distance", "travel_duration", "total_duration", "late_stops"],
+  },
 };
 
 export const ELEVATION_TOOL = {
@@ -142,32 +1139,296 @@ export const ELEVATION_TOOL = {
             latitude: {
               type: "number",
               description: "Latitude",
+              minimum: -90,
+              maximum: 90,
             },
             longitude: {
               type: "number",
               description: "Longitude",
+              minimum: -180,
+              maximum: 180,
             },
           },
           required: ["latitude", "longitude"],
         },
         description: "List of locations to get elevation data for",
+        minItems: 1,
       },
     },
     required: ["locations"],
   },
+  outputSchema: {
+    type: "object",
+    properties: {
+      results: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            elevation: { type: "number", description: "Meters above sea level" },
+            location: LAT_LNG_SCHEMA,
+          },
+          required: ["elevation", "location"],
+        },
+      },
+    },
+    required: ["results"],
+  },
+};
+
+export const ELEVATION_PROFILE_TOOL = {
+  name: "maps_elevation_profile",
+  description:
+    "Get an elevation profile along a path, an encoded polyline or a route between two places, with cumulative distance, total ascent/descent, min/max elevation and steepest grades",
+  inputSchema: {
+    type: "object",
+    properties: {
+      path: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            latitude: { type: "number", description: "Latitude", minimum: -90, maximum: 90 },
+            longitude: { type: "number", description: "Longitude", minimum: -180, maximum: 180 },
+          },
+          required: ["latitude", "longitude"],
+        },
+        description: "Points of the path in order (at least 2)",
+        minItems: 2,
+      },
+      polyline: {
+        type: "string",
+        description: "Path as a Google encoded polyline, e.g. a route's overview_polyline",
+        minLength: 1,
+      },
+      origin: {
+        type: "string",
+        description: "Route start address or coordinates; the path follows the route to destination",
+      },
+      destination: {
+        type: "string",
+        description: "Route end address or coordinates; requires origin",
+      },
+      mode: {
+        type: "string",
+        enum: ["driving", "walking", "bicycling"],
+        description: "Mode of transportation used to route between origin and destination",
+        default: "walking",
+      },
+      samples: {
+        type: "integer",
+        description: "Number of evenly spaced points to sample along the path",
+        minimum: 2,
+        maximum: 1024,
+        default: 100,
+      },
+      language: LANGUAGE_PROPERTY,
+      region: REGION_PROPERTY,
+    },
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      total_distance: TEXT_VALUE_SCHEMA,
+      min_elevation: { type: "number" },
+      max_elevation: { type: "number" },
+      total_ascent: { type: "number" },
+      total_descent: { type: "number" },
+      max_grade: { type: "number", description: "Steepest uphill grade in percent" },
+      min_grade: { type: "number", description: "Steepest downhill grade in percent (negative)" },
+      samples: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            distance: { type: "number", description: "Meters from the start of the path" },
+            elevation: { type: "number" },
+            location: LAT_LNG_SCHEMA,
+          },
+          required: ["distance", "elevation", "location"],
+        },
+      },
+    },
+    required: ["total_distance", "min_elevation", "max_elevation", "total_ascent", "total_descent", "max_grade", "min_grade", "samples"],
+  },
 };
 
 export const GET_PLACE_DETAILS_TOOL = {
   name: "get_place_details",
-  description: "Get detailed information about a specific place",
+  description:
+    "Get detailed information about a specific place. Choose the returned fields with a preset or a field list to control cost, and check whether it is open at a given time",
   inputSchema: {
     type: "object",
     properties: {
       placeId: {
         type: "string",
         description: "Google Maps Place ID",
+        minLength: 1,
+      },
+      preset: {
+        type: "string",
+        enum: ["basic", "contact", "atmosphere", "all"],
+        description:
+          "Field set, billed by Google per data category: basic (name, address, location, types, status, URL, time zone, accessibility, photos), contact (basic plus phone numbers, website and opening hours), atmosphere (basic plus ratings, price level, reviews and summary) or all. Defaults to all unless fields is given",
+      },
+      fields: {
+        type: "array",
+        items: {
+          type: "string",
+          enum: [
+            "name",
+            "address",
+            "location",
+            "types",
+            "business_status",
+            "url",
+            "utc_offset",
+            "wheelchair_accessible_entrance",
+            "photos",
+            "phone",
+            "international_phone",
+            "website",
+            "opening_hours",
+            "rating",
+            "total_ratings",
+            "price_level",
+            "reviews",
+            "editorial_summary",
+          ],
+        },
+        description: "Output fields to return, in addition to those of preset",
+      },
+      sessionToken: {
+        type: "string",
+        description: "session_token from maps_autocomplete when this place was picked from its predictions",
+        minLength: 1,
+      },
+      openAt: {
+        type: ["string", "number"],
+        description:
+          "Check whether the place is open at this time: 'now', a Unix timestamp (seconds), an ISO 8601 date-time with offset, or one without offset taken as local time at the place (e.g. 2024-05-01T18:30). Needs the opening_hours field, which is billed as Contact data",
       },
+      language: LANGUAGE_PROPERTY,
+      region: REGION_PROPERTY,
     },
     required: ["placeId"],
   },
+  outputSchema: {
+    type: "object",
+    properties: {
+      name: { type: "string" },
+      address: { type: "string" },
+      location: LAT_LNG_SCHEMA,
+      rating: { type: "number" },
+      total_ratings: { type: "number" },
+      open_now: { type: "boolean" },
+      phone: { type: "string" },
+      website: { type: "string" },
+      price_level: { type: "number" },
+      types: { type: "array", items: { type: "string" } },
+      business_status: { type: "string", description: "OPERATIONAL, CLOSED_TEMPORARILY or CLOSED_PERMANENTLY" },
+      url: { type: "string", description: "The place's page on Google Maps" },
+      utc_offset: { type: "number", description: "Minutes from UTC" },
+      wheelchair_accessible_entrance: { type: "boolean" },
+      international_phone: { type: "string" },
+      editorial_summary: { type: "string" },
+      opening_hours: {
+        type: "object",
+        properties: {
+          open_now: { type: "boolean" },
+          weekday_text: { type: "array", items: { type: "string" } },
+          periods: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                open: OPENING_TIME_SCHEMA,
+                close: OPENING_TIME_SCHEMA,
+              },
+              required: ["open"],
+            },
+            description: "Weekly opening periods; a period without close means open around the clock",
+          },
+        },
+        required: ["weekday_text", "periods"],
+      },
+      open_at: {
+        type: "object",
+        properties: {
+          local_time: { type: "string", description: "The checked time in the place's local time" },
+          weekday: { type: "string" },
+          is_open: { type: "boolean", description: "Missing when the place has no opening hours" },
+        },
+      },
+      reviews: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            rating: { type: "number" },
+            text: { type: "string" },
+            time: { type: "number", description: "Unix timestamp (seconds)" },
+            author_name: { type: "string" },
+          },
+          required: ["rating", "text", "time", "author_name"],
+        },
+      },
+      photos: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            photo_reference: { type: "string", description: "Pass to get_place_photo to download the image" },
+            width: { type: "number" },
+            height: { type: "number" },
+            html_attributions: { type: "array", items: { type: "string" } },
+          },
+          required: ["photo_reference", "width", "height", "html_attributions"],
+        },
+      },
+    },
+  },
+};
+
+export const GET_PLACE_PHOTO_TOOL = {
+  name: "get_place_photo",
+  description: "Download a place photo by the photo_reference from get_place_details and return it as an image",
+  inputSchema: {
+    type: "object",
+    properties: {
+      photoReference: {
+        type: "string",
+        description: "photo_reference of one of the photos returned by get_place_details",
+        minLength: 1,
+      },
+      placeId: {
+        type: "string",
+        description: "Place the photo belongs to; when given, the photo's required attributions are included",
+        minLength: 1,
+      },
+      maxWidth: {
+        type: "integer",
+        description: "Maximum width in pixels; defaults to 800 when maxHeight is not given either",
+        minimum: 1,
+        maximum: 1600,
+      },
+      maxHeight: {
+        type: "integer",
+        description: "Maximum height in pixels",
+        minimum: 1,
+        maximum: 1600,
+      },
+    },
+    required: ["photoReference"],
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      photo_reference: { type: "string" },
+      mime_type: { type: "string" },
+      size_bytes: { type: "number" },
+      html_attributions: { type: "array", items: { type: "string" } },
+    },
+    required: ["photo_reference", "mime_type", "size_bytes", "html_attributions"],
+  },
 };
\ No newline at end of file
@@ -0,0 +1,62 @@
+import { OpeningPeriod } from "@googlemaps/google-maps-services-js";
+import { InvalidArgumentError } from "./errors.js";
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+/** An ISO 8601 date-time ending in `Z` or an explicit offset denotes an instant rather than a wall-clock time. */
+const HAS_UTC_OFFSET = /(?:z|[+-]\d{2}:?\d{2})$/i;
+
+/**
+ * A point in time to check opening hours against. `local` times are wall-clock times at
+ * the place, stored in the UTC fields of `ms`; the others are instants.
+ */
+export interface OpenAtTime {
+  ms: number;
+  local: boolean;
+}
+
+/** Accepts "now", a Unix timestamp in seconds, or an ISO 8601 date-time with or without a UTC offset. */
+export function parseOpenAt(value: string | number): OpenAtTime {
+  if (value === "now") return { ms: Date.now(), local: false };
+  if (typeof value === "number" || /^\d+$/.test(value)) return { ms: Number(value) * 1000, local: false };
+
+  const local = !HAS_UTC_OFFSET.test(value);
+  // Parsing wall-clock times as UTC keeps the server's own time zone out of the way.
+  const ms = Date.parse(local ? `${value}Z` : value);
+  if (isNaN(ms)) {
+    throw new InvalidArgumentError(`Invalid openAt '${value}', expected "now", a Unix timestamp or an ISO 8601 date-time`);
+  }
+  return { ms, local };
+}
+
+/** Wall-clock time at a place `utcOffsetMinutes` away from UTC; unknown when an instant meets an unknown offset. */
+export function placeLocalTime(openAt: OpenAtTime, utcOffsetMinutes: number | undefined): Date | undefined {
+  if (openAt.local) return new Date(openAt.ms);
+  return utcOffsetMinutes === undefined ? undefined : new Date(openAt.ms + utcOffsetMinutes * 60 * 1000);
+}
+
+const minuteOfWeek = (day: number, time = "0000") => day * MINUTES_PER_DAY + Number(time.slice(0, 2)) * 60 + Number(time.slice(2, 4));
+
+/**
+ * Whether `periods` (Google's opening periods, days counted from Sunday) cover the local
+ * time `local`. A period without a close time means open around the clock; periods may
+ * run past midnight and past the end of the week.
+ */
+export function isOpenAt(periods: OpeningPeriod[], local: Date): boolean {
+  const now = minuteOfWeek(local.getUTCDay()) + local.getUTCHours() * 60 + local.getUTCMinutes();
+  return periods.some((period) => {
+    const start = minuteOfWeek(period.open.day, period.open.time);
+    if (!period.close) return true;
+    let end = minuteOfWeek(period.close.day, period.close.time);
+    if (end <= start) end += MINUTES_PER_WEEK;
+    return (now >= start && now < end) || (now + MINUTES_PER_WEEK >= start && now + MINUTES_PER_WEEK < end);
+  });
+}
+
+/** `local` as an ISO 8601 date-time without offset, e.g. `2024-05-01T18:30`, plus its weekday. */
+export function describeLocalTime(local: Date) {
+  return { local_time: local.toISOString().slice(0, 16), weekday: WEEKDAYS[local.getUTCDay()] };
+}
@@ -0,0 +1,165 @@
+export interface FixtureReview {
+  author_name: string;
+  rating: number;
+  text: string;
+  time: number;
+}
+
+export interface FixturePlace {
+  place_id: string;
+  name: string;
+  formatted_address: string;
+  location: { lat: number; lng: number };
+  types: string[];
+  rating?: number;
+  user_ratings_total?: number;
+  price_level?: number;
+  open_now?: boolean;
+  /** Weekly opening periods in Google's format, days counted from Sunday. */
+  opening_periods?: Array<{ open: { day: number; time: string }; close?: { day: number; time: string } }>;
+  formatted_phone_number?: string;
+  website?: string;
+  elevation?: number;
+  reviews?: FixtureReview[];
+}
+
+export interface FixtureDataset {
+  places: FixturePlace[];
+}
+
+/** Small bundled dataset so the server can run without network access or an API key. */
+export const DEFAULT_FIXTURE_DATASET: FixtureDataset = {
+  places: [
+    {
+      place_id: "fixture-taipei-101",
+      name: "Taipei 101",
+      formatted_address: "No. 7, Section 5, Xinyi Road, Xinyi District, Taipei City, Taiwan 110",
+      location: { lat: 25.033976, lng: 121.564472 },
+      types: ["tourist_attraction", "point_of_interest", "establishment"],
+      rating: 4.6,
+      user_ratings_total: 71234,
+      open_now: true,
+      opening_periods: [0, 1, 2, 3, 4, 5, 6].map((day) => ({ open: { day, time: "1100" }, close: { day, time: "2130" } })),
+      formatted_phone_number: "02 8101 8800",
+      website: "https://www.taipei-101.com.tw/",
+      elevation: 9,
+      reviews: [{ author_name: "Fixture Reviewer", rating: 5, text: "Great view from the observatory.", time: 1700000000 }],
+    },
+    {
+      place_id: "fixture-elephant-mountain",
+      name: "Elephant Mountain Trail",
+      formatted_address: "Lane 150, Section 5, Xinyi Road, Xinyi District, Taipei City, Taiwan 110",
+      location: { lat: 25.027196, lng: 121.570579 },
+      types: ["park", "point_of_interest", "establishment"],
+      rating: 4.6,
+      user_ratings_total: 20311,
+      open_now: true,
+      elevation: 183,
+    },
+    {
+      place_id: "fixture-simple-kaffa",
+      name: "Simple Kaffa",
+      formatted_address: "No. 1, Lane 177, Section 1, Dunhua South Road, Da'an District, Taipei City, Taiwan 106",
+      location: { lat: 25.041566, lng: 121.549114 },
+      types: ["cafe", "food", "point_of_interest", "establishment"],
+      rating: 4.4,
+      user_ratings_total: 3811,
+      price_level: 2,
+      open_now: true,
+      // Open past midnight on Fridays and Saturdays.
+      opening_periods: [
+        ...[0, 1, 2, 3, 4].map((day) => ({ open: { day, time: "0800" }, close: { day, time: "2200" } })),
+        { open: { day: 5, time: "0800" }, close: { day: 6, time: "0100" } },
+        { open: { day: 6, time: "0900" }, close: { day: 0, time: "0100" } },
+      ],
+      formatted_phone_number: "02 8771 1127",
+      elevation: 8,
+    },
+    {
+      place_id: "fixture-tokyo-tower",
+      name: "Tokyo Tower",
+      formatted_address: "4-2-8 Shibakoen, Minato City, Tokyo 105-0011, Japan",
+      location: { lat: 35.658581, lng: 139.745433 },
+      types: ["tourist_attraction", "point_of_interest", "establishment"],
+      rating: 4.5,
+      user_ratings_total: 89512,
+      open_now: true,
+      formatted_phone_number: "03-3433-5111",
+      website: "https://www.tokyotower.co.jp/",
+      elevation: 18,
+    },
+    {
+      place_id: "fixture-blue-bottle-shinjuku",
+      name: "Blue Bottle Coffee Shinjuku",
+      formatted_address: "4-1-6 Shinjuku, Shinjuku City, Tokyo 160-0022, Japan",
+      location: { lat: 35.688378, lng: 139.702187 },
+      types: ["cafe", "food", "point_of_interest", "establishment"],
+      rating: 4.2,
+      user_ratings_total: 2154,
+      price_level: 2,
+      open_now: false,
+      website: "https://store.bluebottlecoffee.jp/",
+      elevation: 38,
+    },
+    {
+      place_id: "fixture-blue-bottle-roppongi",
+      name: "Blue Bottle Coffee Roppongi",
+      formatted_address: "7-7-7 Roppongi, Minato City, Tokyo 106-0032, Japan",
+      location: { lat: 35.664402, lng: 139.729763 },
+      types: ["cafe", "food", "point_of_interest", "establishment"],
+      rating: 4.3,
+      user_ratings_total: 987,
+      price_level: 2,
+      open_now: true,
+      elevation: 27,
+    },
+    {
+      place_id: "fixture-brandenburg-gate",
+      name: "Brandenburg Gate",
+      formatted_address: "Pariser Platz, 10117 Berlin, Germany",
+      location: { lat: 52.516275, lng: 13.377704 },
+      types: ["tourist_attraction", "point_of_interest", "establishment"],
+      rating: 4.7,
+      user_ratings_total: 186043,
+      open_now: true,
+      elevation: 34,
+    },
+    {
+      place_id: "fixture-the-barn-berlin",
+      name: "THE BARN Coffee Roasters",
+      formatted_address: "Schönhauser Allee 8, 10119 Berlin, Germany",
+      location: { lat: 52.529103, lng: 13.411024 },
+      types: ["cafe", "food", "point_of_interest", "establishment"],
+      rating: 4.5,
+      user_ratings_total: 1820,
+      price_level: 2,
+      open_now: true,
+      website: "https://thebarn.de/",
+      elevation: 45,
+    },
+    {
+      place_id: "fixture-ferry-building",
+      name: "Ferry Building",
+      formatted_address: "1 Ferry Building, San Francisco, CA 94111, USA",
+      location: { lat: 37.795543, lng: -122.393421 },
+      types: ["shopping_mall", "point_of_interest", "establishment"],
+      rating: 4.7,
+      user_ratings_total: 39002,
+      open_now: true,
+      formatted_phone_number: "(415) 983-8030",
+      website: "https://www.ferrybuildingmarketplace.com/",
+      elevation: 3,
+    },
+    {
+      place_id: "fixture-twin-peaks",
+      name: "Twin Peaks",
+      formatted_address: "501 Twin Peaks Blvd, San Francisco, CA 94114, USA",
+      location: { lat: 37.75441, lng: -122.447634 },
+      types: ["park", "point_of_interest", "establishment"],
+      rating: 4.7,
+      user_ratings_total: 17744,
+      open_now: true,
+      elevation: 282,
+    },
+  ],
+};
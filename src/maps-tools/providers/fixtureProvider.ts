@@ -0,0 +1,636 @@
+import {
+  DirectionsRequest,
+  DirectionsResponseData,
+  DirectionsRoute,
+  DistanceMatrixRequest,
+  DistanceMatrixResponseData,
+  DistanceMatrixRowElement,
+  ElevationResponseData,
+  AddressComponent,
+  AddressType,
+  GeocodeComponents,
+  GeocodeRequest,
+  GeocodeResponseData,
+  GeocodeResult,
+  LatLng,
+  LatLngBounds,
+  LatLngLiteral,
+  LocationType,
+  Place,
+  PlaceAutocompleteRequest,
+  PlaceAutocompleteResponseData,
+  PlaceAutocompleteResult,
+  PlaceDetailsRequest,
+  PlaceDetailsResponseData,
+  PlacePhotoRequest,
+  PlaceQueryAutocompleteRequest,
+  PlaceQueryAutocompleteResponseData,
+  PlacesNearbyRanking,
+  PlacesNearbyRequest,
+  PlacesNearbyResponseData,
+  ReverseGeocodeRequest,
+  ReverseGeocodeResponseData,
+  Status,
+  TextSearchRequest,
+  TextSearchResponseData,
+  TravelMode,
+  UnitSystem,
+} from "@googlemaps/google-maps-services-js";
+import { randomUUID } from "crypto";
+import fs from "fs";
+import zlib from "zlib";
+import { InvalidRequestError } from "../errors.js";
+import { formatDistance, formatDuration } from "../format.js";
+import { encodePolyline, haversineDistance, toLatLngLiteral } from "../geo.js";
+import { FixtureDataset, FixturePlace } from "./fixtureData.js";
+import { ElevationParams, MapsProvider, PlacePhotoData, ProviderParams } from "./types.js";
+
+/** Average speeds (m/s) used to derive travel times from straight-line distances. */
+const SPEEDS: Record<string, number> = {
+  driving: 13.9,
+  walking: 1.4,
+  bicycling: 4.2,
+  transit: 8.3,
+};
+
+/** Straight lines are shorter than any real route; stretch them to look plausible. */
+const DETOUR_FACTOR = 1.3;
+
+/** Rush-hour penalty applied to driving times when a departure time is given. */
+const TRAFFIC_FACTOR = 1.25;
+
+/** Words ignored when matching free-text queries ("cafe in Berlin"). */
+const STOP_WORDS = new Set(["in", "near", "at", "the", "a", "an", "of"]);
+
+export function loadFixtureDataset(path: string): FixtureDataset {
+  const dataset = JSON.parse(fs.readFileSync(path, "utf8")) as FixtureDataset;
+  if (!Array.isArray(dataset.places)) {
+    throw new Error(`Fixture file ${path} must contain a "places" array`);
+  }
+  return dataset;
+}
+
+/** Every fixture place has one photo of this size. */
+const PHOTO_WIDTH = 800;
+const PHOTO_HEIGHT = 600;
+const PHOTO_REFERENCE_PREFIX = "fixture-photo:";
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer) {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer) {
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/** A single-colour PNG, which is all an offline stand-in for a photo needs to be. */
+function solidPng(width: number, height: number, [r, g, b]: number[]) {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // truecolour RGB
+  const row = Buffer.alloc(1 + width * 3);
+  for (let x = 0; x < width; x++) row.set([r, g, b], 1 + x * 3);
+  const pixels = Buffer.concat(Array.from({ length: height }, () => row));
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", zlib.deflateSync(pixels)),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+/** Country codes for `components` filters, by the country names in the fixture addresses. */
+const COUNTRY_CODES: Record<string, string> = { Taiwan: "tw", Japan: "jp", Germany: "de", USA: "us" };
+
+/** Google returns at most 5 autocomplete predictions. */
+const MAX_PREDICTIONS = 5;
+
+/** Generic types left out of query suggestions. */
+const GENERIC_TYPES = new Set(["point_of_interest", "establishment"]);
+
+const countryOf = (place: FixturePlace) => Object.entries(COUNTRY_CODES).find(([country]) => place.formatted_address.includes(country));
+
+const countryCode = (place: FixturePlace) => countryOf(place)?.[1];
+
+/** The last postal-code-like number of an address, e.g. `94111` or `105-0011`. */
+const postalCode = (place: FixturePlace) => place.formatted_address.match(/\b\d{3,5}(?:-\d{4})?\b/g)?.pop();
+
+const PLUS_CODE_ALPHABET = "23456789CFGHJMPQRVWX";
+
+/** Ten-digit Open Location Code, e.g. `7QQ32HM3+XF`. */
+function plusCode(location: LatLngLiteral) {
+  let lat = Math.min(Math.max(location.lat + 90, 0), 179.999999);
+  let lng = (((location.lng + 180) % 360) + 360) % 360;
+  let code = "";
+  for (let resolution = 20; code.length < 10; resolution /= 20) {
+    code += PLUS_CODE_ALPHABET[Math.floor(lat / resolution)] + PLUS_CODE_ALPHABET[Math.floor(lng / resolution)];
+    lat %= resolution;
+    lng %= resolution;
+  }
+  return `${code.slice(0, 8)}+${code.slice(8)}`;
+}
+
+/** `components` as key/value pairs, from either the object or the `country:US|postal_code:94111` form. */
+function componentEntries(components: string | GeocodeComponents | undefined): Array<[string, string]> {
+  if (!components) return [];
+  const entries =
+    typeof components === "string"
+      ? components.split("|").map((component) => component.split(":") as [string, string | undefined])
+      : Object.entries(components);
+  return entries.filter((entry): entry is [string, string] => Boolean(entry[1]));
+}
+
+/** Like Google, countries match by code or name and postal codes by prefix; the rest match the address. */
+function matchesComponents(place: FixturePlace, components: Array<[string, string]>) {
+  return components.every(([key, value]) => {
+    const needle = value.trim().toLowerCase();
+    if (key === "country") return countryOf(place)?.some((name) => name.toLowerCase() === needle) ?? false;
+    if (key === "postal_code") return postalCode(place)?.toLowerCase().startsWith(needle) ?? false;
+    return place.formatted_address.toLowerCase().includes(needle);
+  });
+}
+
+function parseBounds(bounds: string | LatLngBounds | undefined): LatLngBounds | undefined {
+  if (typeof bounds !== "string") return bounds;
+  const [southwest, northeast] = bounds.split("|").map((corner) => toLatLngLiteral(corner));
+  return southwest && northeast ? { southwest, northeast } : undefined;
+}
+
+const inBounds = (location: LatLngLiteral, { southwest, northeast }: LatLngBounds) =>
+  location.lat >= southwest.lat && location.lat <= northeast.lat && location.lng >= southwest.lng && location.lng <= northeast.lng;
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+/** Place field names as they appear in the `fields` parameter, where they differ from the result keys. */
+const FIELD_KEYS: Record<string, keyof Place> = { type: "types" };
+
+/** Google-style `weekday_text`, Monday first, e.g. `Monday: 11:00–21:30`. */
+function weekdayText(periods: NonNullable<FixturePlace["opening_periods"]>) {
+  const clock = (time: string) => `${time.slice(0, 2)}:${time.slice(2)}`;
+  return [1, 2, 3, 4, 5, 6, 0].map((day) => {
+    const hours = periods
+      .filter((period) => period.open.day === day)
+      .map((period) => (period.close ? `${clock(period.open.time)}–${clock(period.close.time)}` : "Open 24 hours"));
+    return `${WEEKDAYS[day]}: ${hours.length ? hours.join(", ") : "Closed"}`;
+  });
+}
+
+/** Stand-in for Google's prominence ranking: well-rated places with many reviews first. */
+const prominence = (place: FixturePlace) => (place.rating ?? 0) * Math.log10((place.user_ratings_total ?? 0) + 1);
+
+/**
+ * In-memory provider backed by a fixture dataset. Travel times are estimated from
+ * straight-line distances, so it is only meant for offline runs, CI and demos.
+ */
+export class FixtureMapsProvider implements MapsProvider {
+  readonly name = "fixture";
+
+  private pages = new Map<string, Place[]>();
+
+  constructor(
+    private readonly dataset: FixtureDataset,
+    private readonly pageSize = 20
+  ) {}
+
+  /** Returns the first page of `results` and remembers the rest under a `next_page_token`. */
+  private paginate(results: Place[]): { results: Place[]; next_page_token?: string } {
+    if (results.length <= this.pageSize) return { results };
+    const token = randomUUID();
+    this.pages.set(token, results.slice(this.pageSize));
+    return { results: results.slice(0, this.pageSize), next_page_token: token };
+  }
+
+  private nextPage(token: string) {
+    const remaining = this.pages.get(token);
+    if (!remaining) return undefined;
+    this.pages.delete(token);
+    return this.paginate(remaining);
+  }
+
+  private findPlaces(query: string): FixturePlace[] {
+    const needle = query.trim().toLowerCase().replace(/\s+/g, " ");
+    if (!needle) return [];
+    return this.dataset.places.filter(
+      (place) =>
+        place.name.toLowerCase().includes(needle) ||
+        place.formatted_address.toLowerCase().includes(needle) ||
+        needle.includes(place.name.toLowerCase())
+    );
+  }
+
+  private nearestPlace(location: LatLngLiteral): FixturePlace | undefined {
+    let nearest: FixturePlace | undefined;
+    let nearestDistance = Infinity;
+    for (const place of this.dataset.places) {
+      const distance = haversineDistance(location, place.location);
+      if (distance < nearestDistance) {
+        nearest = place;
+        nearestDistance = distance;
+      }
+    }
+    return nearest;
+  }
+
+  private resolve(value: LatLng): { location: LatLngLiteral; address: string; name: string } | undefined {
+    const location = toLatLngLiteral(value);
+    if (location) {
+      const nearest = this.nearestPlace(location);
+      const address = nearest?.formatted_address ?? `${location.lat},${location.lng}`;
+      return { location, address, name: nearest?.name ?? address };
+    }
+    const [place] = this.findPlaces(value as string);
+    return place && { location: place.location, address: place.formatted_address, name: place.name };
+  }
+
+  private toGeocodeResult(place: FixturePlace, partialMatch = false): GeocodeResult {
+    const delta = 0.0015;
+    const country = countryOf(place);
+    const postal = postalCode(place);
+    const code = plusCode(place.location);
+    const addressComponents: AddressComponent[] = [
+      ...(postal ? [{ long_name: postal, short_name: postal, types: [AddressType.postal_code] }] : []),
+      ...(country ? [{ long_name: country[0], short_name: country[1].toUpperCase(), types: [AddressType.country, AddressType.political] }] : []),
+    ];
+    return {
+      types: place.types as GeocodeResult["types"],
+      formatted_address: place.formatted_address,
+      address_components: addressComponents,
+      postcode_localities: [],
+      geometry: {
+        location: place.location,
+        location_type: LocationType.ROOFTOP,
+        viewport: {
+          northeast: { lat: place.location.lat + delta, lng: place.location.lng + delta },
+          southwest: { lat: place.location.lat - delta, lng: place.location.lng - delta },
+        },
+      },
+      plus_code: { global_code: code, compound_code: country ? `${code.slice(4)} ${country[0]}` : code },
+      partial_match: partialMatch,
+      place_id: place.place_id,
+    };
+  }
+
+  private toPlace(place: FixturePlace): Place {
+    return {
+      place_id: place.place_id,
+      name: place.name,
+      formatted_address: place.formatted_address,
+      vicinity: place.formatted_address,
+      geometry: { location: place.location } as Place["geometry"],
+      types: place.types as Place["types"],
+      rating: place.rating,
+      user_ratings_total: place.user_ratings_total,
+      price_level: place.price_level,
+      opening_hours:
+        place.open_now === undefined
+          ? undefined
+          : ({
+              open_now: place.open_now,
+              ...(place.opening_periods && { periods: place.opening_periods, weekday_text: weekdayText(place.opening_periods) }),
+            } as Place["opening_hours"]),
+      business_status: "OPERATIONAL",
+      url: `https://maps.google.com/?cid=${place.place_id}`,
+      // Time zones approximated from the longitude, which is close enough for the bundled places.
+      utc_offset: Math.round(place.location.lng / 15) * 60,
+      formatted_phone_number: place.formatted_phone_number,
+      website: place.website,
+      reviews: place.reviews as Place["reviews"],
+      photos: [
+        {
+          photo_reference: `${PHOTO_REFERENCE_PREFIX}${place.place_id}`,
+          width: PHOTO_WIDTH,
+          height: PHOTO_HEIGHT,
+          html_attributions: ['<a href="https://example.com/fixture-photographer">Fixture Photographer</a>'],
+        },
+      ],
+    };
+  }
+
+  private estimate(from: LatLngLiteral, to: LatLngLiteral, params: { mode?: TravelMode; units?: UnitSystem; departure_time?: unknown }) {
+    const mode = params.mode ?? TravelMode.driving;
+    const distance = Math.round(haversineDistance(from, to) * DETOUR_FACTOR);
+    const duration = Math.round(distance / (SPEEDS[mode] ?? SPEEDS.driving));
+    const inTraffic = mode === TravelMode.driving && params.departure_time !== undefined ? Math.round(duration * TRAFFIC_FACTOR) : undefined;
+    return {
+      distance: { value: distance, text: formatDistance(distance, params.units) },
+      duration: { value: duration, text: formatDuration(duration) },
+      duration_in_traffic: inTraffic === undefined ? undefined : { value: inTraffic, text: formatDuration(inTraffic) },
+    };
+  }
+
+  /** Components restrict the candidates, even without an address; bounds only rank the places inside them first. */
+  async geocode(params: ProviderParams<GeocodeRequest>): Promise<GeocodeResponseData> {
+    const components = componentEntries(params.components);
+    const bounds = parseBounds(params.bounds);
+    const candidates = params.place_id
+      ? this.dataset.places.filter((place) => place.place_id === params.place_id)
+      : params.address?.trim()
+        ? this.findPlaces(params.address)
+        : components.length
+          ? this.dataset.places
+          : [];
+    const matches = candidates
+      .filter((place) => matchesComponents(place, components))
+      .sort((a, b) => (bounds ? Number(inBounds(b.location, bounds)) - Number(inBounds(a.location, bounds)) : 0));
+    return {
+      status: matches.length ? Status.OK : Status.ZERO_RESULTS,
+      error_message: "",
+      results: matches.map((place) => this.toGeocodeResult(place, matches.length > 1)),
+    };
+  }
+
+  /** Like Google, `result_type` and `location_type` filter the results afterwards, matching any of their values. */
+  async reverseGeocode(params: ProviderParams<ReverseGeocodeRequest>): Promise<ReverseGeocodeResponseData> {
+    const location = params.latlng && toLatLngLiteral(params.latlng);
+    const nearest = location && this.nearestPlace(location);
+    const resultTypes: string[] = params.result_type ?? [];
+    const locationTypes: string[] = params.location_type ?? [];
+    const results = (nearest ? [this.toGeocodeResult(nearest)] : []).filter(
+      (result) =>
+        (!resultTypes.length || result.types.some((type) => resultTypes.includes(type))) &&
+        (!locationTypes.length || locationTypes.includes(String(result.geometry.location_type)))
+    );
+    return {
+      status: results.length ? Status.OK : Status.ZERO_RESULTS,
+      error_message: "",
+      results,
+    } as ReverseGeocodeResponseData;
+  }
+
+  async placesNearby(params: ProviderParams<PlacesNearbyRequest>): Promise<PlacesNearbyResponseData> {
+    if (params.pagetoken) {
+      const page = this.nextPage(params.pagetoken);
+      if (!page) return { status: Status.INVALID_REQUEST, error_message: "Unknown page token", results: [] };
+      return { status: Status.OK, error_message: "", ...page };
+    }
+
+    const center = toLatLngLiteral(params.location);
+    if (!center) {
+      return { status: Status.INVALID_REQUEST, error_message: "Invalid location", results: [] };
+    }
+
+    const keyword = params.keyword?.toLowerCase();
+    const results = this.dataset.places
+      .map((place) => ({ place, distance: haversineDistance(center, place.location) }))
+      .filter(({ place, distance }) => {
+        if (params.radius && distance > params.radius) return false;
+        if (params.type && !place.types.includes(params.type)) return false;
+        if (params.opennow && !place.open_now) return false;
+        if (params.minprice !== undefined && (place.price_level ?? 0) < params.minprice) return false;
+        if (params.maxprice !== undefined && (place.price_level ?? 0) > params.maxprice) return false;
+        if (keyword && !place.name.toLowerCase().includes(keyword) && !place.types.some((type) => type.includes(keyword))) return false;
+        return true;
+      })
+      .sort((a, b) => (params.rankby === PlacesNearbyRanking.distance ? a.distance - b.distance : prominence(b.place) - prominence(a.place)))
+      .map(({ place }) => this.toPlace(place));
+
+    return { status: results.length ? Status.OK : Status.ZERO_RESULTS, error_message: "", ...this.paginate(results) };
+  }
+
+  async textSearch(params: ProviderParams<TextSearchRequest>): Promise<TextSearchResponseData> {
+    if (params.pagetoken) {
+      const page = this.nextPage(params.pagetoken);
+      if (!page) return { status: Status.INVALID_REQUEST, error_message: "Unknown page token", results: [] };
+      return { status: Status.OK, error_message: "", ...page };
+    }
+
+    const words = params.query
+      .toLowerCase()
+      .split(/[\s,]+/)
+      .filter((word) => word && !STOP_WORDS.has(word));
+    const bias = params.location && toLatLngLiteral(params.location);
+    const results = this.dataset.places
+      .filter((place) => {
+        const haystack = [place.name, place.formatted_address, ...place.types].join(" ").toLowerCase();
+        if (!words.every((word) => haystack.includes(word))) return false;
+        if (params.type && !place.types.includes(params.type)) return false;
+        if (params.opennow && !place.open_now) return false;
+        if (params.minprice !== undefined && (place.price_level ?? 0) < params.minprice) return false;
+        if (params.maxprice !== undefined && (place.price_level ?? 0) > params.maxprice) return false;
+        return true;
+      })
+      .map((place) => ({ place, distance: bias ? haversineDistance(bias, place.location) : 0 }))
+      .sort((a, b) => a.distance - b.distance || (b.place.user_ratings_total ?? 0) - (a.place.user_ratings_total ?? 0))
+      .map(({ place }) => this.toPlace(place));
+
+    return { status: results.length ? Status.OK : Status.ZERO_RESULTS, error_message: "", ...this.paginate(results) };
+  }
+
+  async placeDetails(params: ProviderParams<PlaceDetailsRequest>): Promise<PlaceDetailsResponseData> {
+    const place = this.dataset.places.find((candidate) => candidate.place_id === params.place_id);
+    return {
+      status: place ? Status.OK : Status.NOT_FOUND,
+      error_message: place ? "" : `No fixture place with id ${params.place_id}`,
+      result: place ? this.selectFields(this.toPlace(place), params.fields) : {},
+      html_attributions: [],
+    };
+  }
+
+  /** Like Google, returns only the requested fields. */
+  private selectFields(place: Place, fields: string[] | undefined): Place {
+    if (!fields) return place;
+    const keys = new Set(fields.map((field) => FIELD_KEYS[field] ?? field));
+    return Object.fromEntries(Object.entries(place).filter(([key]) => keys.has(key as keyof Place))) as Place;
+  }
+
+  /** Places whose name or address has a word starting with each word of `input`, like Google's prefix matching. */
+  private matchPrefix(input: string): FixturePlace[] {
+    const words = input.toLowerCase().split(/[\s,]+/).filter(Boolean);
+    if (!words.length) return [];
+    return this.dataset.places.filter((place) => {
+      const tokens = `${place.name} ${place.formatted_address}`.toLowerCase().split(/[\s,]+/);
+      return words.every((word) => tokens.some((token) => token.startsWith(word)));
+    });
+  }
+
+  private toPrediction(place: FixturePlace, origin: LatLngLiteral | undefined): PlaceAutocompleteResult {
+    return {
+      description: `${place.name}, ${place.formatted_address}`,
+      place_id: place.place_id,
+      distance_meters: origin && Math.round(haversineDistance(origin, place.location)),
+      terms: [
+        { value: place.name, offset: 0 },
+        { value: place.formatted_address, offset: place.name.length + 2 },
+      ],
+      types: place.types as PlaceAutocompleteResult["types"],
+      matched_substrings: [],
+      structured_formatting: {
+        main_text: place.name,
+        main_text_matched_substrings: [],
+        secondary_text: place.formatted_address,
+        secondary_text_matched_substrings: [],
+      },
+    };
+  }
+
+  async placeAutocomplete(params: ProviderParams<PlaceAutocompleteRequest>): Promise<PlaceAutocompleteResponseData> {
+    const center = params.location ? toLatLngLiteral(params.location) : undefined;
+    const origin = params.origin ? toLatLngLiteral(params.origin) : undefined;
+    const countries = (params.components ?? []).map((component) => component.replace(/^country:/i, "").toLowerCase());
+    const predictions = this.matchPrefix(params.input)
+      .filter((place) => {
+        if (countries.length && !countries.includes(countryCode(place) ?? "")) return false;
+        if (params.types && !place.types.includes(params.types)) return false;
+        if (params.strictbounds && center && params.radius && haversineDistance(center, place.location) > params.radius) return false;
+        return true;
+      })
+      .map((place) => ({ place, distance: center ? haversineDistance(center, place.location) : 0 }))
+      .sort((a, b) => a.distance - b.distance || prominence(b.place) - prominence(a.place))
+      .slice(0, MAX_PREDICTIONS)
+      .map(({ place }) => this.toPrediction(place, origin));
+
+    return { status: predictions.length ? Status.OK : Status.ZERO_RESULTS, error_message: "", predictions };
+  }
+
+  /** Suggests place types starting with the first word as searches, followed by matching places. */
+  async placeQueryAutocomplete(params: ProviderParams<PlaceQueryAutocompleteRequest>): Promise<PlaceQueryAutocompleteResponseData> {
+    const [first = "", ...rest] = params.input.toLowerCase().split(/\s+/).filter(Boolean);
+    const types = [...new Set(this.dataset.places.flatMap((place) => place.types))].filter(
+      (type) => first && !GENERIC_TYPES.has(type) && type.startsWith(first)
+    );
+    const queries = types.map((type) => {
+      const description = [type.replace(/_/g, " "), ...rest].join(" ");
+      return { description, terms: [{ value: description, offset: 0 }], matched_substrings: [] };
+    });
+    const center = params.location ? toLatLngLiteral(params.location) : undefined;
+    const places = this.matchPrefix(params.input)
+      .sort((a, b) => (center ? haversineDistance(center, a.location) - haversineDistance(center, b.location) : prominence(b) - prominence(a)))
+      .map((place) => {
+        const { description, place_id, terms, types, matched_substrings } = this.toPrediction(place, undefined);
+        return { description, place_id, terms, types, matched_substrings };
+      });
+    const predictions = [...queries, ...places].slice(0, MAX_PREDICTIONS);
+
+    return { status: predictions.length ? Status.OK : Status.ZERO_RESULTS, error_message: "", predictions };
+  }
+
+  async placePhoto(params: ProviderParams<PlacePhotoRequest>): Promise<PlacePhotoData> {
+    const placeId = params.photoreference.startsWith(PHOTO_REFERENCE_PREFIX) && params.photoreference.slice(PHOTO_REFERENCE_PREFIX.length);
+    if (!placeId || !this.dataset.places.some((place) => place.place_id === placeId)) {
+      throw new InvalidRequestError(`Fetching place photo failed: unknown photo reference '${params.photoreference}'`);
+    }
+
+    // Like Google: scaled down to fit both limits, keeping the aspect ratio, but never scaled up.
+    const scale = Math.min(1, (params.maxwidth ?? Infinity) / PHOTO_WIDTH, (params.maxheight ?? Infinity) / PHOTO_HEIGHT);
+    const colour = crc32(Buffer.from(placeId));
+    return {
+      data: solidPng(Math.max(1, Math.round(PHOTO_WIDTH * scale)), Math.max(1, Math.round(PHOTO_HEIGHT * scale)), [colour >>> 16, colour >>> 8, colour].map((value) => value & 0xff)),
+      contentType: "image/png",
+    };
+  }
+
+  async distanceMatrix(params: ProviderParams<DistanceMatrixRequest>): Promise<DistanceMatrixResponseData> {
+    const origins = params.origins.map((origin) => this.resolve(origin));
+    const destinations = params.destinations.map((destination) => this.resolve(destination));
+
+    return {
+      status: Status.OK,
+      error_message: "",
+      origin_addresses: origins.map((origin) => origin?.address ?? ""),
+      destination_addresses: destinations.map((destination) => destination?.address ?? ""),
+      rows: origins.map((origin) => ({
+        elements: destinations.map((destination) =>
+          origin && destination
+            ? ({ status: Status.OK, ...this.estimate(origin.location, destination.location, params) } as DistanceMatrixRowElement)
+            : ({ status: Status.NOT_FOUND } as DistanceMatrixRowElement)
+        ),
+      })),
+    };
+  }
+
+  async directions(params: ProviderParams<DirectionsRequest>): Promise<DirectionsResponseData> {
+    const origin = this.resolve(params.origin);
+    const destination = this.resolve(params.destination);
+    const waypoints = (params.waypoints ?? []).map((waypoint) => this.resolve(waypoint));
+    if (!origin || !destination || waypoints.some((waypoint) => !waypoint)) {
+      return { status: Status.NOT_FOUND, error_message: "", geocoded_waypoints: [], routes: [], available_travel_modes: [] };
+    }
+
+    // Greedy nearest-neighbour ordering is good enough to exercise the optimize flag offline.
+    const order = waypoints.map((_, index) => index);
+    if (params.optimize) {
+      let current = origin.location;
+      for (let i = 0; i < order.length; i++) {
+        let best = i;
+        for (let j = i + 1; j < order.length; j++) {
+          if (haversineDistance(current, waypoints[order[j]]!.location) < haversineDistance(current, waypoints[order[best]]!.location)) best = j;
+        }
+        [order[i], order[best]] = [order[best], order[i]];
+        current = waypoints[order[i]]!.location;
+      }
+    }
+
+    const mode = params.mode ?? TravelMode.driving;
+    const stops = [origin, ...order.map((index) => waypoints[index]!), destination];
+    const legs = stops.slice(1).map((to, index) => {
+      const from = stops[index];
+      const estimate = this.estimate(from.location, to.location, params);
+      const transit = mode === TravelMode.transit && {
+        line: { name: "Fixture Line", short_name: "F1", vehicle: { name: "Bus", type: "BUS" }, agencies: [{ name: "Fixture Transit" }] },
+        headsign: to.name,
+        departure_stop: { name: from.name, location: from.location },
+        arrival_stop: { name: to.name, location: to.location },
+        num_stops: Math.max(1, Math.round(estimate.distance.value / 500)),
+      };
+      return {
+        ...estimate,
+        start_location: from.location,
+        end_location: to.location,
+        start_address: from.address,
+        end_address: to.address,
+        steps: [
+          {
+            html_instructions: transit ? `Bus towards ${to.name}` : `Head to <b>${to.address}</b>`,
+            ...estimate,
+            start_location: from.location,
+            end_location: to.location,
+            polyline: { points: encodePolyline([from.location, to.location]) },
+            travel_mode: mode.toUpperCase(),
+            transit_details: transit || undefined,
+          },
+        ],
+      };
+    });
+
+    const route = {
+      summary: "Fixture route",
+      legs,
+      waypoint_order: order,
+      overview_polyline: { points: encodePolyline(stops.map((stop) => stop.location)) },
+      warnings: ["Fixture data: times are estimated from straight-line distance"],
+      copyrights: "Fixture data",
+    } as unknown as DirectionsRoute;
+
+    return { status: Status.OK, error_message: "", geocoded_waypoints: [], routes: [route], available_travel_modes: [] };
+  }
+
+  async elevation(params: ElevationParams): Promise<ElevationResponseData> {
+    const points = ("locations" in params ? params.locations : params.path).map((point) => toLatLngLiteral(point)!);
+    return {
+      status: Status.OK,
+      error_message: "",
+      results: points.map((location) => {
+        const nearest = this.nearestPlace(location);
+        const known = nearest?.elevation !== undefined && haversineDistance(location, nearest.location) < 100;
+        // Unknown points get a smooth synthetic terrain so profiles still have some shape.
+        const elevation = known ? nearest!.elevation! : Math.max(0, 50 + 40 * Math.sin(location.lat * 100) * Math.cos(location.lng * 100));
+        return { location, elevation, resolution: known ? 1 : 1000 };
+      }),
+    };
+  }
+}
@@ -0,0 +1,87 @@
+import {
+  Client,
+  defaultTimeout,
+  DirectionsRequest,
+  DistanceMatrixRequest,
+  GeocodeRequest,
+  PlaceAutocompleteRequest,
+  PlaceDetailsRequest,
+  PlacePhotoRequest,
+  PlaceQueryAutocompleteRequest,
+  PlacesNearbyRequest,
+  ReverseGeocodeRequest,
+  TextSearchRequest,
+} from "@googlemaps/google-maps-services-js";
+import { ElevationParams, MapsProvider, ProviderParams } from "./types.js";
+
+export class GoogleMapsProvider implements MapsProvider {
+  readonly name = "google";
+  readonly pageTokenDelayMs = 2000;
+  private client: Client;
+
+  constructor(
+    private readonly apiKey: string,
+    timeoutMs = defaultTimeout
+  ) {
+    if (!apiKey) {
+      throw new Error("Google Maps API Key is required");
+    }
+    // The client's own retries would multiply those of LimitedMapsProvider and bypass its budgets.
+    this.client = new Client({ config: { timeout: timeoutMs, raxConfig: { retry: 0 } } });
+  }
+
+  async geocode(params: ProviderParams<GeocodeRequest>) {
+    const response = await this.client.geocode({ params: { ...params, key: this.apiKey } });
+    return response.data;
+  }
+
+  async reverseGeocode(params: ProviderParams<ReverseGeocodeRequest>) {
+    const response = await this.client.reverseGeocode({ params: { ...params, key: this.apiKey } });
+    return response.data;
+  }
+
+  async placesNearby(params: ProviderParams<PlacesNearbyRequest>) {
+    const response = await this.client.placesNearby({ params: { ...params, key: this.apiKey } });
+    return response.data;
+  }
+
+  async textSearch(params: ProviderParams<TextSearchRequest>) {
+    const response = await this.client.textSearch({ params: { ...params, key: this.apiKey } });
+    return response.data;
+  }
+
+  async placeDetails(params: ProviderParams<PlaceDetailsRequest>) {
+    const response = await this.client.placeDetails({ params: { ...params, key: this.apiKey } });
+    return response.data;
+  }
+
+  async placePhoto(params: ProviderParams<PlacePhotoRequest>) {
+    const response = await this.client.placePhoto({ params: { ...params, key: this.apiKey }, responseType: "arraybuffer" });
+    return { data: Buffer.from(response.data), contentType: String(response.headers["content-type"] ?? "") };
+  }
+
+  async placeAutocomplete(params: ProviderParams<PlaceAutocompleteRequest>) {
+    const response = await this.client.placeAutocomplete({ params: { ...params, key: this.apiKey } });
+    return response.data;
+  }
+
+  async placeQueryAutocomplete(params: ProviderParams<PlaceQueryAutocompleteRequest>) {
+    const response = await this.client.placeQueryAutocomplete({ params: { ...params, key: this.apiKey } });
+    return response.data;
+  }
+
+  async distanceMatrix(params: ProviderParams<DistanceMatrixRequest>) {
+    const response = await this.client.distancematrix({ params: { ...params, key: this.apiKey } });
+    return response.data;
+  }
+
+  async directions(params: ProviderParams<DirectionsRequest>) {
+    const response = await this.client.directions({ params: { ...params, key: this.apiKey } });
+    return response.data;
+  }
+
+  async elevation(params: ElevationParams) {
+    const response = await this.client.elevation({ params: { ...params, key: this.apiKey } });
+    return response.data;
+  }
+}
@@ -0,0 +1,49 @@
+import { defaultTimeout } from "@googlemaps/google-maps-services-js";
+import { CacheConfig, DEFAULT_CACHE_CONFIG, withCache } from "../cache/index.js";
+import { DEFAULT_LIMITS_CONFIG, LimitsConfig, withLimits } from "../limits/index.js";
+import { createLogger, Logger } from "../logger.js";
+import { DEFAULT_FIXTURE_DATASET } from "./fixtureData.js";
+import { FixtureMapsProvider, loadFixtureDataset } from "./fixtureProvider.js";
+import { GoogleMapsProvider } from "./googleProvider.js";
+import { MapsProvider } from "./types.js";
+
+export { FixtureMapsProvider, GoogleMapsProvider };
+export type { MapsProvider };
+
+export type ProviderName = "google" | "fixture";
+
+export const PROVIDER_NAMES: ProviderName[] = ["google", "fixture"];
+
+export interface ProviderConfig {
+  name: ProviderName;
+  /** Required by the Google provider. */
+  apiKey?: string;
+  /** Dataset of the fixture provider; the bundled one when missing. */
+  fixturePath?: string;
+  /** Per HTTP request to Google, in milliseconds. */
+  timeoutMs: number;
+}
+
+export const DEFAULT_PROVIDER_CONFIG: ProviderConfig = { name: "google", timeoutMs: defaultTimeout };
+
+/** Creates the configured backend without retries, limits or cache. */
+export function createBaseProvider(config: ProviderConfig): MapsProvider {
+  switch (config.name) {
+    case "google":
+      return new GoogleMapsProvider(config.apiKey || "", config.timeoutMs);
+    case "fixture":
+      return new FixtureMapsProvider(config.fixturePath ? loadFixtureDataset(config.fixturePath) : DEFAULT_FIXTURE_DATASET);
+  }
+}
+
+/**
+ * Creates the configured backend wrapped in retries, rate limits and budgets, and the
+ * response cache on top so that cache hits neither wait nor count against a budget.
+ */
+export function createMapsProvider(
+  config: { provider: ProviderConfig; limits?: LimitsConfig; cache?: CacheConfig },
+  logger: Logger = createLogger()
+): MapsProvider {
+  const limited = withLimits(createBaseProvider(config.provider), config.limits ?? DEFAULT_LIMITS_CONFIG, logger);
+  return withCache(limited, config.cache ?? DEFAULT_CACHE_CONFIG, logger);
+}
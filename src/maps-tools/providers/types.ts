@@ -0,0 +1,57 @@
+import {
+  DirectionsRequest,
+  DirectionsResponseData,
+  DistanceMatrixRequest,
+  DistanceMatrixResponseData,
+  ElevationResponseData,
+  GeocodeRequest,
+  GeocodeResponseData,
+  PlaceAutocompleteRequest,
+  PlaceAutocompleteResponseData,
+  PlaceDetailsRequest,
+  PlaceDetailsResponseData,
+  PlacePhotoRequest,
+  PlaceQueryAutocompleteRequest,
+  PlaceQueryAutocompleteResponseData,
+  PlacesNearbyRequest,
+  PlacesNearbyResponseData,
+  PositionalElevationParams,
+  ReverseGeocodeRequest,
+  ReverseGeocodeResponseData,
+  SampledPathElevationParams,
+  TextSearchRequest,
+  TextSearchResponseData,
+} from "@googlemaps/google-maps-services-js";
+
+/** Request parameters as accepted by the Google SDK, minus credentials (those belong to the provider). */
+export type ProviderParams<T extends { params: object }> = Omit<T["params"], "key" | "client_id" | "client_secret">;
+
+export type ElevationParams = PositionalElevationParams | SampledPathElevationParams;
+
+/** A downloaded place photo. Unlike the other APIs, Place Photos answers with the image itself. */
+export interface PlacePhotoData {
+  data: Buffer;
+  contentType: string;
+}
+
+/**
+ * Backend used by `GoogleMapsTools`. Requests and responses follow the shape of the
+ * Google Maps web services so that adapters for other backends only have to map
+ * their data into it.
+ */
+export interface MapsProvider {
+  readonly name: string;
+  /** Time until a freshly issued `next_page_token` can be used. */
+  readonly pageTokenDelayMs?: number;
+  geocode(params: ProviderParams<GeocodeRequest>): Promise<GeocodeResponseData>;
+  reverseGeocode(params: ProviderParams<ReverseGeocodeRequest>): Promise<ReverseGeocodeResponseData>;
+  placesNearby(params: ProviderParams<PlacesNearbyRequest>): Promise<PlacesNearbyResponseData>;
+  textSearch(params: ProviderParams<TextSearchRequest>): Promise<TextSearchResponseData>;
+  placeDetails(params: ProviderParams<PlaceDetailsRequest>): Promise<PlaceDetailsResponseData>;
+  placePhoto(params: ProviderParams<PlacePhotoRequest>): Promise<PlacePhotoData>;
+  placeAutocomplete(params: ProviderParams<PlaceAutocompleteRequest>): Promise<PlaceAutocompleteResponseData>;
+  placeQueryAutocomplete(params: ProviderParams<PlaceQueryAutocompleteRequest>): Promise<PlaceQueryAutocompleteResponseData>;
+  distanceMatrix(params: ProviderParams<DistanceMatrixRequest>): Promise<DistanceMatrixResponseData>;
+  directions(params: ProviderParams<DirectionsRequest>): Promise<DirectionsResponseData>;
+  elevation(params: ElevationParams): Promise<ElevationResponseData>;
+}
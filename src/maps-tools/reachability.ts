@@ -0,0 +1,71 @@
+import { LatLngLiteral } from "@googlemaps/google-maps-services-js";
+import { destinationPoint } from "./geo.js";
+
+/**
+ * Straight-line speeds (m/s) used to size the sampled area. They are on the fast side
+ * so that the area usually extends past what is reachable in the time budget.
+ */
+export const SAMPLING_SPEEDS: Record<"driving" | "walking" | "bicycling" | "transit", number> = {
+  driving: 60 / 3.6,
+  bicycling: 20 / 3.6,
+  walking: 6 / 3.6,
+  transit: 30 / 3.6,
+};
+
+export interface RadialSample {
+  location: LatLngLiteral;
+  /** Degrees clockwise from north. */
+  bearing: number;
+  /** Straight-line distance from the center in meters. */
+  distance: number;
+}
+
+/**
+ * `rings` evenly spaced circles of `directions` points each around `center`, the
+ * outermost one at `radius`. Indexed as `[direction][ring]`, innermost ring first.
+ */
+export function radialSamples(center: LatLngLiteral, radius: number, directions: number, rings: number): RadialSample[][] {
+  return Array.from({ length: directions }, (_, direction) => {
+    const bearing = (360 * direction) / directions;
+    return Array.from({ length: rings }, (_, ring) => {
+      const distance = (radius * (ring + 1)) / rings;
+      return { location: destinationPoint(center, bearing, distance), bearing, distance };
+    });
+  });
+}
+
+/**
+ * Boundary of the area reachable within `budget` seconds, one vertex per direction.
+ * Along each direction the boundary lies beyond the farthest reachable sample, where
+ * the travel time is interpolated to reach the budget; samples without a route count
+ * as unreachable. `durations` is indexed like the samples, and `limited` is set when
+ * an outermost sample is reachable, i.e. the area may extend past the sampled radius.
+ */
+export function reachableBoundary(
+  center: LatLngLiteral,
+  samples: RadialSample[][],
+  durations: Array<Array<number | null>>,
+  budget: number
+): { boundary: LatLngLiteral[]; limited: boolean } {
+  let limited = false;
+  const boundary = samples.map((ray, direction) => {
+    const times = durations[direction];
+    let farthest = -1;
+    times.forEach((time, ring) => {
+      if (time !== null && time <= budget) farthest = ring;
+    });
+    if (farthest === ray.length - 1) {
+      limited = true;
+      return ray[farthest].location;
+    }
+
+    const inner = farthest >= 0 ? { distance: ray[farthest].distance, time: times[farthest]! } : { distance: 0, time: 0 };
+    const outerTime = times[farthest + 1];
+    let distance = inner.distance;
+    if (outerTime !== null && outerTime > inner.time) {
+      distance += ((budget - inner.time) / (outerTime - inner.time)) * (ray[farthest + 1].distance - inner.distance);
+    }
+    return distance > 0 ? destinationPoint(center, ray[0].bearing, distance) : center;
+  });
+  return { boundary, limited };
+}
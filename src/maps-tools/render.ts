@@ -0,0 +1,251 @@
+/**
+ * Concise plain-text renditions of tool results for clients that do not read
+ * `structuredContent`. They keep every identifier needed for follow-up calls.
+ */
+
+import { formatDistance, stripHtml } from "./format.js";
+import {
+  AutocompleteResult,
+  BatchGeocodeResult,
+  BatchResult,
+  BatchReverseGeocodeResult,
+  DirectionsResult,
+  DistanceMatrixResult,
+  ElevationProfile,
+  ElevationResult,
+  GeocodeCandidate,
+  GeocodeResult,
+  LatLng,
+  MeetingPlaceResult,
+  NearbySearchResult,
+  OpenAtCheck,
+  OptimizedRoute,
+  PlaceDetails,
+  PlacePhoto,
+  PlaceSearchResult,
+  PlaceSummary,
+  QueryAutocompleteResult,
+  ReachabilityResult,
+  RouteStepSummary,
+} from "./results.js";
+
+const latLng = (location: LatLng) => `${location.lat},${location.lng}`;
+
+function placeLine(place: PlaceSummary, index: number) {
+  const facts = [
+    place.rating !== undefined ? `${place.rating}★${place.total_ratings !== undefined ? ` (${place.total_ratings})` : ""}` : undefined,
+    place.open_now === undefined ? undefined : place.open_now ? "open now" : "closed now",
+  ].filter(Boolean);
+  return `${index + 1}. ${place.name}${place.address ? ` - ${place.address}` : ""}${facts.length ? ` | ${facts.join(", ")}` : ""} [place_id: ${place.place_id}]`;
+}
+
+function placeList(places: PlaceSummary[], nextPageToken?: string) {
+  const lines = places.length ? places.map(placeLine) : ["No places found."];
+  if (nextPageToken) lines.push(`More results: pageToken=${nextPageToken}`);
+  return lines;
+}
+
+export function renderNearbySearch(result: NearbySearchResult) {
+  const center = result.location.formatted_address ? `${result.location.formatted_address} (${latLng(result.location)})` : latLng(result.location);
+  return [`Places near ${center}:`, ...placeList(result.places, result.next_page_token)].join("\n");
+}
+
+export function renderPlaceSearch(result: PlaceSearchResult) {
+  return placeList(result.places, result.next_page_token).join("\n");
+}
+
+export function renderAutocomplete(result: AutocompleteResult) {
+  const lines = result.predictions.length
+    ? result.predictions.map((prediction, index) => {
+        const distance = prediction.distance_meters !== undefined ? ` (${formatDistance(prediction.distance_meters)})` : "";
+        const secondary = prediction.secondary_text ? ` - ${prediction.secondary_text}` : "";
+        return `${index + 1}. ${prediction.main_text}${secondary}${distance} [place_id: ${prediction.place_id}]`;
+      })
+    : ["No predictions found."];
+  lines.push(`Session token: ${result.session_token} (pass as sessionToken to get_place_details for the chosen place)`);
+  return lines.join("\n");
+}
+
+export function renderQueryAutocomplete(result: QueryAutocompleteResult) {
+  if (!result.predictions.length) return "No predictions found.";
+  return result.predictions
+    .map((prediction, index) => `${index + 1}. ${prediction.description}${prediction.place_id ? ` [place_id: ${prediction.place_id}]` : ""}`)
+    .join("\n");
+}
+
+function openAtLine(check: OpenAtCheck) {
+  const state = check.is_open === undefined ? "unknown (no opening hours)" : check.is_open ? "open" : "closed";
+  return check.local_time ? `At ${check.local_time} (${check.weekday}): ${state}` : `At the requested time: ${state}`;
+}
+
+export function renderPlaceDetails(place: PlaceDetails) {
+  const lines = [
+    place.name,
+    place.address,
+    place.location && `Location: ${latLng(place.location)}`,
+    place.types?.length ? `Types: ${place.types.join(", ")}` : undefined,
+    place.business_status && place.business_status !== "OPERATIONAL" ? `Status: ${place.business_status}` : undefined,
+    place.editorial_summary,
+    place.rating !== undefined ? `Rating: ${place.rating}★${place.total_ratings !== undefined ? ` from ${place.total_ratings} ratings` : ""}` : undefined,
+    place.open_now !== undefined ? (place.open_now ? "Open now" : "Closed now") : undefined,
+    place.open_at && openAtLine(place.open_at),
+    ...(place.opening_hours?.weekday_text ?? []).map((day) => `  ${day}`),
+    place.price_level !== undefined ? `Price level: ${place.price_level}/4` : undefined,
+    place.phone && `Phone: ${place.phone}`,
+    place.international_phone && `International phone: ${place.international_phone}`,
+    place.website && `Website: ${place.website}`,
+    place.url && `Google Maps: ${place.url}`,
+    place.wheelchair_accessible_entrance !== undefined
+      ? `Wheelchair accessible entrance: ${place.wheelchair_accessible_entrance ? "yes" : "no"}`
+      : undefined,
+  ];
+  if (place.photos?.length) lines.push(`Photos: ${place.photos.map((photo) => `${photo.width}x${photo.height} [photo_reference: ${photo.photo_reference}]`).join(", ")}`);
+  for (const review of place.reviews ?? []) {
+    lines.push(`- ${review.rating}★ ${review.author_name}: ${review.text.replace(/\s+/g, " ")}`);
+  }
+  return lines.filter(Boolean).join("\n");
+}
+
+export function renderPhotoAttributions(photo: PlacePhoto) {
+  const attributions = photo.html_attributions.map(stripHtml).filter(Boolean);
+  return attributions.length
+    ? `Photo by ${attributions.join(", ")}`
+    : "Photo from Google Maps; pass placeId to include the photographer's attribution";
+}
+
+function candidateLine(candidate: GeocodeCandidate) {
+  const facts = [candidate.location_type, ...candidate.types.slice(0, 2), candidate.partial_match ? "partial match" : undefined].filter(Boolean);
+  return `${candidate.formatted_address} (${latLng(candidate.location)}) | ${facts.join(", ")} [place_id: ${candidate.place_id}]`;
+}
+
+export function renderGeocode(result: GeocodeResult) {
+  if (result.results.length === 1) return candidateLine(result.results[0]);
+  return [`${result.results.length} candidates:`, ...result.results.map((candidate, index) => `${index + 1}. ${candidateLine(candidate)}`)].join("\n");
+}
+
+function batchLines<Input, Output>(
+  result: BatchResult<Input, Output>,
+  describeInput: (input: Input) => string,
+  describeResult: (output: Output) => string
+) {
+  return [
+    `${result.succeeded} of ${result.results.length} succeeded`,
+    ...result.results.map(
+      (item, index) =>
+        `${index + 1}. ${describeInput(item.input)} → ` +
+        (item.result ? describeResult(item.result) : `${item.status}: ${item.error?.message ?? "failed"}`)
+    ),
+  ].join("\n");
+}
+
+export function renderBatchGeocode(result: BatchGeocodeResult) {
+  return batchLines(result, (address) => address, candidateLine);
+}
+
+export function renderBatchReverseGeocode(result: BatchReverseGeocodeResult) {
+  return batchLines(result, (location) => `${location.latitude},${location.longitude}`, candidateLine);
+}
+
+export function renderDistanceMatrix(result: DistanceMatrixResult) {
+  const lines: string[] = [];
+  result.origin_addresses.forEach((origin, row) => {
+    result.destination_addresses.forEach((destination, column) => {
+      const distance = result.distances[row]?.[column];
+      const duration = result.durations[row]?.[column];
+      const traffic = result.durations_in_traffic?.[row]?.[column];
+      lines.push(
+        `${origin} → ${destination}: ` +
+          (distance && duration ? `${distance.text}, ${duration.text}${traffic ? ` (${traffic.text} in traffic)` : ""}` : "no route")
+      );
+    });
+  });
+  return lines.join("\n");
+}
+
+export function renderMeetingPlace(result: MeetingPlaceResult) {
+  const measure = result.objective === "minimax" ? "longest trip" : "total travel time";
+  const lines = [`Best places by ${measure} for ${result.participants.length} participants, around ${latLng(result.midpoint)}:`];
+  result.places.forEach((place, index) => {
+    lines.push(
+      `${index + 1}. ${place.name}${place.address ? ` - ${place.address}` : ""} | longest ${place.max_duration.text}, total ${place.total_duration.text} [place_id: ${place.place_id}]`,
+      `   ${place.travel_times.map((travel) => `${travel.participant}: ${travel.duration.text}`).join("; ")}`
+    );
+  });
+  if (result.unreachable_candidates) lines.push(`${result.unreachable_candidates} candidates left out: not every participant can reach them`);
+  return lines.join("\n");
+}
+
+export function renderReachability(result: ReachabilityResult) {
+  const center = result.center.formatted_address ? `${result.center.formatted_address} (${latLng(result.center)})` : latLng(result.center);
+  const [boundary] = (result.area as { geometry: { coordinates: number[][][] } }).geometry.coordinates;
+  const lines = [
+    `Reachable within ${result.max_duration.text} by ${result.mode} from ${center}: about ${result.area_km2} km²`,
+    `${result.reachable_samples} of ${result.samples.length} sampled points reachable, sampled up to ${formatDistance(result.sampled_radius)}`,
+    `Boundary (lat,lng): ${boundary.map(([lng, lat]) => `${lat},${lng}`).join("; ")}`,
+  ];
+  if (result.limited_by_radius) lines.push("The outermost samples are reachable, so the area may extend further; retry with a larger maxRadius");
+  return lines.join("\n");
+}
+
+export function renderOptimizedRoute(result: OptimizedRoute) {
+  const lines = [
+    `Optimized ${result.mode} route: ${result.total_distance.text}, ${result.travel_duration.text} traveling, ${result.total_duration.text} in total`,
+  ];
+  result.stops.forEach((stop, index) => {
+    const leg = stop.leg_duration ? ` (${stop.leg_distance ? `${stop.leg_distance.text}, ` : ""}${stop.leg_duration.text})` : "";
+    const notes = [
+      `arrives ${stop.arrival_time}`,
+      stop.wait && `waits ${stop.wait.text}`,
+      stop.late && `${stop.late.text} late`,
+    ].filter(Boolean);
+    const label = stop.stop_index !== undefined ? `stop ${stop.stop_index}` : index === 0 ? "start" : "end";
+    lines.push(`${index + 1}. ${stop.address} [${label}]${leg} | ${notes.join(", ")}`);
+  });
+  if (result.late_stops) lines.push(`${result.late_stops} stops are reached after their time window closes`);
+  return lines.join("\n");
+}
+
+function stepLines(steps: RouteStepSummary[], indent: string): string[] {
+  return steps.flatMap((step, index) => {
+    const transit = step.transit
+      ? ` [${step.transit.vehicle} ${step.transit.line}${step.transit.headsign ? ` towards ${step.transit.headsign}` : ""}: ` +
+        `${step.transit.departure_stop} → ${step.transit.arrival_stop}, ${step.transit.num_stops} stops]`
+      : "";
+    return [
+      `${indent}${index + 1}. ${step.instruction} (${step.distance.text}, ${step.duration.text})${transit}`,
+      ...stepLines(step.steps ?? [], `${indent}   `),
+    ];
+  });
+}
+
+export function renderDirections(result: DirectionsResult) {
+  const traffic = result.total_duration_in_traffic ? `, ${result.total_duration_in_traffic.text} in traffic` : "";
+  const lines = [`Route via ${result.summary || "unnamed roads"}: ${result.total_distance.text}, ${result.total_duration.text}${traffic}`];
+  if (result.ordered_waypoints) lines.push(`Waypoint order: ${result.ordered_waypoints.join(" → ")}`);
+
+  result.legs.forEach((leg, index) => {
+    const times = leg.departure_time && leg.arrival_time ? `, departs ${leg.departure_time}, arrives ${leg.arrival_time}` : "";
+    lines.push(`Leg ${index + 1}: ${leg.start_address} → ${leg.end_address} (${leg.distance.text}, ${leg.duration.text}${times})`);
+    lines.push(...stepLines(leg.steps ?? [], "  "));
+  });
+
+  for (const warning of result.warnings ?? []) lines.push(`Warning: ${warning}`);
+  result.alternatives?.forEach((alternative, index) => {
+    lines.push(`Alternative ${index + 1} via ${alternative.summary}: ${alternative.total_distance.text}, ${alternative.total_duration.text}`);
+  });
+  return lines.join("\n");
+}
+
+export function renderElevation(result: ElevationResult) {
+  return result.results.map((point) => `${latLng(point.location)}: ${Math.round(point.elevation * 10) / 10} m`).join("\n");
+}
+
+export function renderElevationProfile(profile: ElevationProfile) {
+  return [
+    `Distance: ${profile.total_distance.text}`,
+    `Elevation: ${profile.min_elevation} m to ${profile.max_elevation} m`,
+    `Ascent: ${profile.total_ascent} m, descent: ${profile.total_descent} m`,
+    `Steepest grade: +${profile.max_grade}% / ${profile.min_grade}%`,
+    `Samples (distance m: elevation m): ${profile.samples.map((sample) => `${sample.distance}: ${sample.elevation}`).join(", ")}`,
+  ].join("\n");
+}
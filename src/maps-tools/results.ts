@@ -0,0 +1,361 @@
+/**
+ * Result shapes returned by the tools. They are what `structuredContent` carries and
+ * mirror the `outputSchema` declarations in `mapsTools.ts`; keep both in sync.
+ */
+
+import { MapsErrorCode, MapsErrorDetails } from "./errors.js";
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+/** A measurement with Google's localized rendering, e.g. `{ value: 1200, text: "1.2 km" }`. */
+export interface TextValue {
+  value: number;
+  text: string;
+}
+
+/** A search center or bias point, either given as coordinates or geocoded. */
+export interface ResolvedLocation extends LatLng {
+  formatted_address?: string;
+  place_id?: string;
+}
+
+export interface PlaceSummary {
+  name: string;
+  place_id: string;
+  address?: string;
+  location: LatLng;
+  rating?: number;
+  total_ratings?: number;
+  open_now?: boolean;
+}
+
+export interface NearbySearchResult {
+  location: ResolvedLocation;
+  places: PlaceSummary[];
+  next_page_token?: string;
+}
+
+export interface PlaceSearchResult {
+  places: PlaceSummary[];
+  next_page_token?: string;
+}
+
+export interface AutocompletePrediction {
+  description: string;
+  place_id: string;
+  /** The place name, e.g. `Taipei 101`, and the rest of the description. */
+  main_text: string;
+  secondary_text?: string;
+  types: string[];
+  /** Straight-line distance from the bias location. */
+  distance_meters?: number;
+}
+
+export interface AutocompleteResult {
+  /** Pass to further autocomplete calls of the session and to `get_place_details` for the chosen place. */
+  session_token: string;
+  predictions: AutocompletePrediction[];
+}
+
+/** A suggested search, or a place when `place_id` is set. */
+export interface QueryPrediction {
+  description: string;
+  place_id?: string;
+  types?: string[];
+}
+
+export interface QueryAutocompleteResult {
+  predictions: QueryPrediction[];
+}
+
+export interface PlaceReview {
+  rating: number;
+  text: string;
+  time: number;
+  author_name: string;
+}
+
+export interface PlacePhotoSummary {
+  /** Pass to `get_place_photo` to download the image. */
+  photo_reference: string;
+  width: number;
+  height: number;
+  /** Attributions that must be shown with the photo, as HTML links. */
+  html_attributions: string[];
+}
+
+/** `day` counts from Sunday (0); `time` is local 24-hour `HHMM`. */
+export interface OpeningTime {
+  day: number;
+  time: string;
+}
+
+export interface OpeningHoursSummary {
+  open_now?: boolean;
+  weekday_text: string[];
+  /** A period without `close` means open around the clock. */
+  periods: Array<{ open: OpeningTime; close?: OpeningTime }>;
+}
+
+/** Result of the `openAt` check; `is_open` is missing when it cannot be determined. */
+export interface OpenAtCheck {
+  /** The checked time in the place's local time, e.g. `2024-05-01T18:30`. */
+  local_time?: string;
+  weekday?: string;
+  is_open?: boolean;
+}
+
+/** Only the requested fields are present. */
+export interface PlaceDetails {
+  name?: string;
+  address?: string;
+  location?: LatLng;
+  types?: string[];
+  business_status?: string;
+  url?: string;
+  /** Minutes from UTC, e.g. 480 for UTC+8. */
+  utc_offset?: number;
+  wheelchair_accessible_entrance?: boolean;
+  rating?: number;
+  total_ratings?: number;
+  open_now?: boolean;
+  opening_hours?: OpeningHoursSummary;
+  open_at?: OpenAtCheck;
+  phone?: string;
+  international_phone?: string;
+  website?: string;
+  price_level?: number;
+  editorial_summary?: string;
+  reviews?: PlaceReview[];
+  photos?: PlacePhotoSummary[];
+}
+
+/** A downloaded photo; `data` is base64 and only returned as image content. */
+export interface PlacePhoto {
+  photo_reference: string;
+  mime_type: string;
+  size_bytes: number;
+  html_attributions: string[];
+  data: string;
+}
+
+export interface AddressComponent {
+  long_name: string;
+  short_name: string;
+  types: string[];
+}
+
+export interface Viewport {
+  northeast: LatLng;
+  southwest: LatLng;
+}
+
+/** One geocoder match; ambiguous inputs such as "Springfield" yield several. */
+export interface GeocodeCandidate {
+  location: LatLng;
+  formatted_address: string;
+  place_id: string;
+  /** `ROOFTOP`, `RANGE_INTERPOLATED`, `GEOMETRIC_CENTER` or `APPROXIMATE`. */
+  location_type: string;
+  types: string[];
+  viewport?: Viewport;
+  /** Set when Google matched only part of the input. */
+  partial_match?: boolean;
+  address_components: AddressComponent[];
+}
+
+/** Geocoding and reverse geocoding results, best match first. */
+export interface GeocodeResult {
+  results: GeocodeCandidate[];
+}
+
+/** One input of a batch call; `result` is set when `status` is `OK`, `error` otherwise. */
+export interface BatchItem<Input, Output> {
+  input: Input;
+  status: "OK" | MapsErrorCode;
+  result?: Output;
+  error?: MapsErrorDetails;
+}
+
+/** Per-input outcomes in input order; identical inputs are looked up only once. */
+export interface BatchResult<Input, Output> {
+  results: Array<BatchItem<Input, Output>>;
+  succeeded: number;
+  failed: number;
+  unique_inputs: number;
+}
+
+/** Batch results carry the best match per input. */
+export type BatchGeocodeResult = BatchResult<string, GeocodeCandidate>;
+
+export type BatchReverseGeocodeResult = BatchResult<{ latitude: number; longitude: number }, GeocodeCandidate>;
+
+/** Rows follow `origin_addresses`, columns `destination_addresses`; `null` where no route exists. */
+export interface DistanceMatrixResult {
+  distances: Array<Array<TextValue | null>>;
+  durations: Array<Array<TextValue | null>>;
+  durations_in_traffic?: Array<Array<TextValue | null>>;
+  origin_addresses: string[];
+  destination_addresses: string[];
+}
+
+export interface OptimizedStop {
+  /** Position in the input `stops`; missing for a fixed start or end. */
+  stop_index?: number;
+  input: string;
+  address: string;
+  /** Travel from the previous stop; missing for the first one. */
+  leg_distance?: TextValue;
+  leg_duration?: TextValue;
+  /** ISO 8601 times, scheduled from the departure time. */
+  arrival_time: string;
+  departure_time: string;
+  /** Time spent waiting for the stop's time window to open. */
+  wait?: TextValue;
+  /** How far past its time window the stop is reached. */
+  late?: TextValue;
+}
+
+export interface OptimizedRoute {
+  mode: string;
+  /** Indices into the input `stops` in visiting order. */
+  order: number[];
+  stops: OptimizedStop[];
+  total_distance: TextValue;
+  /** Travel time only, and the whole trip including waiting and time at the stops. */
+  travel_duration: TextValue;
+  total_duration: TextValue;
+  late_stops: number;
+}
+
+export interface ParticipantTravel {
+  participant: string;
+  distance: TextValue;
+  duration: TextValue;
+}
+
+export interface MeetingPlace extends PlaceSummary {
+  /** Travel time of the participant farthest away, and of all participants together. */
+  max_duration: TextValue;
+  total_duration: TextValue;
+  /** One entry per participant, in input order. */
+  travel_times: ParticipantTravel[];
+}
+
+export interface MeetingPlaceResult {
+  /** Geographic midpoint of the participants, around which candidates were searched. */
+  midpoint: LatLng;
+  participants: Array<ResolvedLocation & { input: string }>;
+  objective: "minimax" | "total";
+  /** Best first. */
+  places: MeetingPlace[];
+  /** Candidates left out because some participant has no route to them. */
+  unreachable_candidates: number;
+}
+
+export interface ReachabilitySample {
+  location: LatLng;
+  /** Degrees clockwise from north. */
+  bearing: number;
+  /** Straight-line distance from the center in meters. */
+  distance: number;
+  /** Travel time from the center; `null` where no route exists. */
+  duration: TextValue | null;
+  reachable: boolean;
+}
+
+export interface ReachabilityResult {
+  center: ResolvedLocation;
+  mode: string;
+  max_duration: TextValue;
+  /** Radius of the outermost ring of samples in meters. */
+  sampled_radius: number;
+  /** GeoJSON Feature with the reachable area as a Polygon. */
+  area: object;
+  area_km2: number;
+  reachable_samples: number;
+  /** Set when outermost samples are reachable, so the area may extend past `sampled_radius`. */
+  limited_by_radius: boolean;
+  samples: ReachabilitySample[];
+}
+
+export interface TransitSummary {
+  line: string;
+  vehicle: string;
+  agency?: string;
+  headsign?: string;
+  departure_stop: string;
+  arrival_stop: string;
+  departure_time?: string;
+  arrival_time?: string;
+  num_stops: number;
+}
+
+export interface RouteStepSummary {
+  instruction: string;
+  travel_mode: string;
+  maneuver?: string;
+  distance: TextValue;
+  duration: TextValue;
+  transit?: TransitSummary;
+  start_location?: LatLng;
+  end_location?: LatLng;
+  polyline?: string;
+  steps?: RouteStepSummary[];
+}
+
+export interface RouteLegSummary {
+  start_address: string;
+  end_address: string;
+  distance: TextValue;
+  duration: TextValue;
+  duration_in_traffic?: TextValue;
+  departure_time?: string;
+  arrival_time?: string;
+  start_location?: LatLng;
+  end_location?: LatLng;
+  steps?: RouteStepSummary[];
+}
+
+export interface RouteSummary {
+  summary: string;
+  total_distance: TextValue;
+  total_duration: TextValue;
+  total_duration_in_traffic?: TextValue;
+  legs: RouteLegSummary[];
+  warnings?: string[];
+  overview_polyline?: string;
+  copyrights?: string;
+}
+
+export interface DirectionsResult extends RouteSummary {
+  waypoint_order?: number[];
+  ordered_waypoints?: string[];
+  alternatives?: Array<Omit<RouteSummary, "legs" | "warnings" | "overview_polyline" | "copyrights">>;
+  /** GeoJSON FeatureCollection, or GPX/KML document text, when a `format` was requested. */
+  geometry?: object | string;
+}
+
+export interface ElevationPoint {
+  elevation: number;
+  location: LatLng;
+}
+
+export interface ElevationResult {
+  results: ElevationPoint[];
+}
+
+export interface ElevationProfile {
+  total_distance: TextValue;
+  min_elevation: number;
+  max_elevation: number;
+  total_ascent: number;
+  total_descent: number;
+  /** Steepest uphill and downhill grade between consecutive samples, in percent. */
+  max_grade: number;
+  min_grade: number;
+  samples: Array<{ distance: number; elevation: number; location: LatLng }>;
+}
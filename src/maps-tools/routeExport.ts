@@ -0,0 +1,160 @@
+import { DirectionsRoute, LatLngLiteral, RouteLeg } from "@googlemaps/google-maps-services-js";
+import { stripHtml } from "./format.js";
+import { decodePolyline } from "./geo.js";
+
+export type RouteExportFormat = "geojson" | "gpx" | "kml";
+
+interface StepBoundary {
+  instruction: string;
+  travel_mode: string;
+  distance: number;
+  duration: number;
+  /** Index of the step's first point within the leg's path. */
+  start_index: number;
+}
+
+interface LegGeometry {
+  leg: RouteLeg;
+  path: LatLngLiteral[];
+  steps: StepBoundary[];
+}
+
+const samePoint = (a: LatLngLiteral, b: LatLngLiteral) => a.lat === b.lat && a.lng === b.lng;
+
+/**
+ * Stitches the detailed step polylines of each leg into one path. The overview polyline
+ * is simplified and has no step boundaries, so it is only used when steps are missing.
+ */
+function legGeometries(route: DirectionsRoute): LegGeometry[] {
+  return route.legs.map((leg) => {
+    const path: LatLngLiteral[] = [];
+    const steps: StepBoundary[] = [];
+
+    for (const step of leg.steps ?? []) {
+      const points = step.polyline?.points ? decodePolyline(step.polyline.points) : [step.start_location, step.end_location];
+      // Consecutive steps share their boundary point; keep it once and start the step there.
+      const joined = path.length > 0 && points.length > 0 && samePoint(path[path.length - 1], points[0]);
+      steps.push({
+        instruction: stripHtml(step.html_instructions ?? ""),
+        travel_mode: String(step.travel_mode).toLowerCase(),
+        distance: step.distance.value,
+        duration: step.duration.value,
+        start_index: joined ? path.length - 1 : path.length,
+      });
+      path.push(...(joined ? points.slice(1) : points));
+    }
+
+    if (!path.length && route.legs.length === 1 && route.overview_polyline?.points) {
+      path.push(...decodePolyline(route.overview_polyline.points));
+    }
+    return { leg, path, steps };
+  });
+}
+
+/** A FeatureCollection with one LineString per leg; step boundaries are vertex indices into it. */
+function toGeoJson(route: DirectionsRoute, legs: LegGeometry[]) {
+  return {
+    type: "FeatureCollection",
+    properties: { summary: route.summary },
+    features: legs.map(({ leg, path, steps }, index) => ({
+      type: "Feature",
+      geometry: {
+        type: "LineString",
+        coordinates: path.map((point) => [point.lng, point.lat]),
+      },
+      properties: {
+        leg_index: index,
+        start_address: leg.start_address,
+        end_address: leg.end_address,
+        distance: leg.distance.value,
+        duration: leg.duration.value,
+        steps,
+      },
+    })),
+  };
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/[<>&'"]/g, (c) => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", "'": "&apos;", '"': "&quot;" })[c]!);
+
+/** A GPX track with one segment per leg; each step starts at a named track point. */
+function toGpx(route: DirectionsRoute, legs: LegGeometry[]) {
+  const stops = [legs[0]?.leg.start_location, ...legs.map(({ leg }) => leg.end_location)].filter(Boolean) as LatLngLiteral[];
+  const stopNames = [legs[0]?.leg.start_address, ...legs.map(({ leg }) => leg.end_address)];
+
+  const waypoints = stops.map(
+    (stop, index) => `  <wpt lat="${stop.lat}" lon="${stop.lng}"><name>${escapeXml(stopNames[index] ?? "")}</name></wpt>`
+  );
+  const segments = legs.map(({ path, steps }) => {
+    const names = new Map(steps.map((step) => [step.start_index, step.instruction]));
+    const points = path.map((point, index) => {
+      const name = names.get(index);
+      return `      <trkpt lat="${point.lat}" lon="${point.lng}">${name ? `<name>${escapeXml(name)}</name>` : ""}</trkpt>`;
+    });
+    return ["    <trkseg>", ...points, "    </trkseg>"].join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="mcp-google-map" xmlns="http://www.topografix.com/GPX/1/1">',
+    ...waypoints,
+    "  <trk>",
+    `    <name>${escapeXml(route.summary ?? "")}</name>`,
+    ...segments,
+    "  </trk>",
+    "</gpx>",
+  ].join("\n");
+}
+
+/** A KML document with a line per leg plus a point for each step start. */
+function toKml(route: DirectionsRoute, legs: LegGeometry[]) {
+  const coordinates = (points: LatLngLiteral[]) => points.map((point) => `${point.lng},${point.lat}`).join(" ");
+
+  const placemarks = legs.map(({ leg, path, steps }, index) =>
+    [
+      "    <Folder>",
+      `      <name>${escapeXml(`${leg.start_address} - ${leg.end_address}`)}</name>`,
+      "      <Placemark>",
+      `        <name>Leg ${index + 1}</name>`,
+      "        <ExtendedData>",
+      `          <Data name="distance"><value>${leg.distance.value}</value></Data>`,
+      `          <Data name="duration"><value>${leg.duration.value}</value></Data>`,
+      "        </ExtendedData>",
+      `        <LineString><coordinates>${coordinates(path)}</coordinates></LineString>`,
+      "      </Placemark>",
+      ...steps
+        .filter((step) => path[step.start_index])
+        .map(
+          (step) =>
+            `      <Placemark><name>${escapeXml(step.instruction)}</name><Point><coordinates>${coordinates([path[step.start_index]])}</coordinates></Point></Placemark>`
+        ),
+      "    </Folder>",
+    ].join("\n")
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    "  <Document>",
+    `    <name>${escapeXml(route.summary ?? "")}</name>`,
+    ...placemarks,
+    "  </Document>",
+    "</kml>",
+  ].join("\n");
+}
+
+/** Converts a route to GeoJSON (as an object) or GPX/KML (as XML text). */
+export function exportRoute(route: DirectionsRoute, format: RouteExportFormat): object | string {
+  const legs = legGeometries(route);
+  if (format === "gpx") return toGpx(route, legs);
+  if (format === "kml") return toKml(route, legs);
+  return toGeoJson(route, legs);
+}
+
+/** The full route as one decoded path, legs joined end to end. */
+export function routePath(route: DirectionsRoute): LatLngLiteral[] {
+  return legGeometries(route).reduce<LatLngLiteral[]>((path, { path: legPath }) => {
+    const joined = path.length > 0 && legPath.length > 0 && samePoint(path[path.length - 1], legPath[0]);
+    return path.concat(joined ? legPath.slice(1) : legPath);
+  }, []);
+}
@@ -0,0 +1,144 @@
+/** Seconds of travel time one second of lateness is worth, so that the solver avoids missed time windows first. */
+const LATENESS_PENALTY = 1000;
+
+/** Time window and dwell time of a node, in seconds after the departure. */
+export interface VisitWindow {
+  earliest?: number;
+  latest?: number;
+  service?: number;
+}
+
+export interface TourProblem {
+  /** Travel times in seconds between nodes; `Infinity` where there is no route. */
+  durations: number[][];
+  /** Nodes to put in order. */
+  stops: number[];
+  /** Fixed first and last node. */
+  start?: number;
+  end?: number;
+  /** Return to the first node after the last stop; only used without `end`. */
+  roundTrip?: boolean;
+  windows?: Array<VisitWindow | undefined>;
+}
+
+export interface ScheduledVisit {
+  node: number;
+  /** Seconds after the departure; the vehicle waits until `earliest` when it is early. */
+  arrival: number;
+  wait: number;
+  late: number;
+  departure: number;
+}
+
+/** Full node sequence of a tour through `stops` in the given order. */
+export function tourNodes(problem: TourProblem, order: number[]): number[] {
+  const nodes = [...(problem.start !== undefined ? [problem.start] : []), ...order];
+  if (problem.end !== undefined) nodes.push(problem.end);
+  else if (problem.roundTrip && nodes.length) nodes.push(nodes[0]);
+  return nodes;
+}
+
+/**
+ * Arrival, waiting and lateness at every node of the tour. The closing node of a round
+ * trip is only arrived at, not visited again. Returns `undefined` when a leg has no route.
+ */
+export function scheduleTour(problem: TourProblem, order: number[]): ScheduledVisit[] | undefined {
+  const nodes = tourNodes(problem, order);
+  const closing = problem.end === undefined && problem.roundTrip ? nodes.length - 1 : -1;
+  const visits: ScheduledVisit[] = [];
+  let time = 0;
+  for (let i = 0; i < nodes.length; i++) {
+    if (i > 0) {
+      const leg = problem.durations[nodes[i - 1]][nodes[i]];
+      if (!Number.isFinite(leg)) return undefined;
+      time += leg;
+    }
+    const window = i === closing ? undefined : problem.windows?.[nodes[i]];
+    const arrival = time;
+    const wait = window?.earliest !== undefined ? Math.max(0, window.earliest - arrival) : 0;
+    const late = window?.latest !== undefined ? Math.max(0, arrival + wait - window.latest) : 0;
+    time = arrival + wait + (window?.service ?? 0);
+    visits.push({ node: nodes[i], arrival, wait, late, departure: time });
+  }
+  return visits;
+}
+
+function tourCost(problem: TourProblem, order: number[]): number {
+  const visits = scheduleTour(problem, order);
+  if (!visits) return Infinity;
+  const lateness = visits.reduce((sum, visit) => sum + visit.late, 0);
+  return (visits.length ? visits[visits.length - 1].departure : 0) + LATENESS_PENALTY * lateness;
+}
+
+/** Greedy tour that always travels to the closest stop not visited yet. */
+function nearestNeighbor(problem: TourProblem, first: number | undefined): number[] {
+  const remaining = new Set(problem.stops);
+  const order: number[] = [];
+  let current = problem.start;
+  if (first !== undefined) {
+    order.push(first);
+    remaining.delete(first);
+    current = first;
+  }
+  while (remaining.size) {
+    let next = remaining.values().next().value as number;
+    if (current !== undefined) {
+      for (const candidate of remaining) {
+        if (problem.durations[current][candidate] < problem.durations[current][next]) next = candidate;
+      }
+    }
+    order.push(next);
+    remaining.delete(next);
+    current = next;
+  }
+  return order;
+}
+
+/**
+ * Improves `order` with 2-opt (reversing a section) and relocate moves (moving one stop
+ * elsewhere) until neither shortens the tour. Each move is judged on the full schedule,
+ * which keeps asymmetric travel times and time windows correct.
+ */
+function improve(problem: TourProblem, order: number[]): number[] {
+  let best = order;
+  let bestCost = tourCost(problem, best);
+  for (let improved = true; improved; ) {
+    improved = false;
+    for (let i = 0; i < best.length - 1; i++) {
+      for (let j = i + 1; j < best.length; j++) {
+        const reversed = [...best.slice(0, i), ...best.slice(i, j + 1).reverse(), ...best.slice(j + 1)];
+        const withoutStop = [...best.slice(0, i), ...best.slice(i + 1)];
+        const relocated = [...withoutStop.slice(0, j), best[i], ...withoutStop.slice(j)];
+        for (const candidate of [reversed, relocated]) {
+          const cost = tourCost(problem, candidate);
+          if (cost < bestCost - 1e-6) {
+            best = candidate;
+            bestCost = cost;
+            improved = true;
+          }
+        }
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Visiting order of `problem.stops`: the best nearest-neighbor tour (from every possible
+ * first stop when the start is not fixed), refined by local search. Not guaranteed to be
+ * optimal, but close for the few dozen stops this is used with.
+ */
+export function solveTour(problem: TourProblem): number[] {
+  const firsts = problem.start !== undefined ? [undefined] : problem.stops;
+  let best: number[] = [];
+  let bestCost = Infinity;
+  for (const first of firsts) {
+    const order = nearestNeighbor(problem, first);
+    const cost = tourCost(problem, order);
+    if (cost < bestCost || !best.length) {
+      best = order;
+      bestCost = cost;
+    }
+  }
+  return improve(problem, best);
+}
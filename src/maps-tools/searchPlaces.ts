@@ -1,112 +1,215 @@
-import { GoogleMapsTools } from "./toolclass.js";
+import { Place } from "@googlemaps/google-maps-services-js";
+import { InvalidArgumentError, MapsError, MapsErrorDetails } from "./errors.js";
+import { LocaleOptions, parseLocale } from "./locale.js";
+import { describeLocalTime, isOpenAt, OpenAtTime, parseOpenAt, placeLocalTime } from "./openingHours.js";
+import {
+  AutocompleteResult,
+  BatchGeocodeResult,
+  BatchReverseGeocodeResult,
+  DirectionsResult,
+  DistanceMatrixResult,
+  ElevationProfile,
+  ElevationResult,
+  GeocodeResult,
+  MeetingPlaceResult,
+  NearbySearchResult,
+  OpenAtCheck,
+  OptimizedRoute,
+  PlaceDetails,
+  PlacePhoto,
+  PlaceSearchResult,
+  PlaceSummary,
+  QueryAutocompleteResult,
+  ReachabilityResult,
+} from "./results.js";
+import {
+  AutocompleteOptions,
+  DirectionsOptions,
+  ElevationProfileParams,
+  GeocodeOptions,
+  GoogleMapsTools,
+  MeetingPlaceParams,
+  OptimizeRouteParams,
+  PlaceDetailsOptions,
+  PlaceResult,
+  ReachabilityParams,
+  ReverseGeocodeOptions,
+  RouteOptions,
+  selectedDetailFields,
+} from "./toolclass.js";
 
-interface SearchNearbyResponse {
-  success: boolean;
-  error?: string;
-  data?: any[];
-  location?: any;
-}
+/** Optional language/region tool arguments, validated before use. */
+type LocaleArgs = { language?: string; region?: string };
 
-interface PlaceDetailsResponse {
+/** Outcome of a tool call; `data` is what the tool returns as structured content. */
+export interface ToolResponse<T = unknown> {
   success: boolean;
   error?: string;
-  data?: any;
+  details?: MapsErrorDetails;
+  data?: T;
 }
 
-interface GeocodeResponse {
-  success: boolean;
-  error?: string;
-  data?: {
-    location: { lat: number; lng: number };
-    formatted_address: string;
-    place_id: string;
+/** A failed response; `details` carries the code, retryability and hint of typed errors. */
+function failure(error: unknown, fallbackMessage: string) {
+  return {
+    success: false,
+    error: error instanceof Error ? error.message : fallbackMessage,
+    details: error instanceof MapsError ? error.toJSON() : undefined,
   };
 }
 
-interface ReverseGeocodeResponse {
-  success: boolean;
-  error?: string;
-  data?: {
-    formatted_address: string;
-    place_id: string;
-    address_components: any[];
-  };
-}
-
-interface DistanceMatrixResponse {
-  success: boolean;
-  error?: string;
-  data?: {
-    distances: any[][];
-    durations: any[][];
-    origin_addresses: string[];
-    destination_addresses: string[];
-  };
-}
-
-interface DirectionsResponse {
-  success: boolean;
-  error?: string;
-  data?: {
-    routes: any[];
-    summary: string;
-    total_distance: { value: number; text: string };
-    total_duration: { value: number; text: string };
-  };
-}
-
-interface ElevationResponse {
-  success: boolean;
-  error?: string;
-  data?: Array<{
-    elevation: number;
-    location: { lat: number; lng: number };
-  }>;
-}
-
 export class PlacesSearcher {
-  private mapsTools: GoogleMapsTools;
+  constructor(private readonly mapsTools: GoogleMapsTools) {}
 
-  constructor() {
-    this.mapsTools = new GoogleMapsTools();
+  private formatPlace(place: PlaceResult): PlaceSummary {
+    return {
+      name: place.name,
+      place_id: place.place_id,
+      address: place.formatted_address ?? place.vicinity,
+      location: place.geometry.location,
+      rating: place.rating,
+      total_ratings: place.user_ratings_total,
+      open_now: place.opening_hours?.open_now,
+    };
   }
 
-  async searchNearby(params: { center: { value: string; isCoordinates: boolean }; keyword?: string; radius?: number; openNow?: boolean; minRating?: number }): Promise<SearchNearbyResponse> {
+  async searchNearby(params: {
+    center: { value: string; isCoordinates: boolean };
+    keyword?: string;
+    radius?: number;
+    openNow?: boolean;
+    minRating?: number;
+    maxResults?: number;
+    pageToken?: string;
+    rankBy?: "prominence" | "distance";
+    language?: string;
+    region?: string;
+  }): Promise<ToolResponse<NearbySearchResult>> {
     try {
-      const location = await this.mapsTools.getLocation(params.center);
-      console.error(location);
-      const places = await this.mapsTools.searchNearbyPlaces({
+      const locale = parseLocale(params);
+      const location = await this.mapsTools.getLocation(params.center, locale);
+      const { results, next_page_token } = await this.mapsTools.searchNearbyPlaces({
         location,
         keyword: params.keyword,
         radius: params.radius,
         openNow: params.openNow,
         minRating: params.minRating,
-      });
+        maxResults: params.maxResults,
+        pageToken: params.pageToken,
+        rankBy: params.rankBy,
+      }, locale);
 
       return {
-        location: location,
         success: true,
-        data: places.map((place) => ({
-          name: place.name,
-          place_id: place.place_id,
-          address: place.formatted_address,
-          location: place.geometry.location,
-          rating: place.rating,
-          total_ratings: place.user_ratings_total,
-          open_now: place.opening_hours?.open_now,
-        })),
+        data: {
+          location,
+          places: results.map((place) => this.formatPlace(place)),
+          next_page_token,
+        },
       };
     } catch (error) {
+      return failure(error, "Error occurred during search");
+    }
+  }
+
+  async searchPlaces(params: {
+    query: string;
+    location?: { value: string; isCoordinates: boolean };
+    radius?: number;
+    type?: string;
+    region?: string;
+    minPrice?: number;
+    maxPrice?: number;
+    pageToken?: string;
+    language?: string;
+  }): Promise<ToolResponse<PlaceSearchResult>> {
+    try {
+      const locale = parseLocale(params);
+      const location = params.location ? await this.mapsTools.getLocation(params.location, locale) : undefined;
+      const { results, next_page_token } = await this.mapsTools.textSearchPlaces({
+        query: params.query,
+        location: location && { lat: location.lat, lng: location.lng },
+        radius: params.radius,
+        type: params.type,
+        minPrice: params.minPrice,
+        maxPrice: params.maxPrice,
+        pageToken: params.pageToken,
+      }, locale);
+
       return {
-        success: false,
-        error: error instanceof Error ? error.message : "Error occurred during search",
+        success: true,
+        data: {
+          places: results.map((place) => this.formatPlace(place)),
+          next_page_token,
+        },
       };
+    } catch (error) {
+      return failure(error, "Error occurred during text search");
     }
   }
 
-  async getPlaceDetails(placeId: string): Promise<PlaceDetailsResponse> {
+  /** Coordinates of an optional bias location given as address or `lat,lng`. */
+  private async biasLocation(location: { value: string; isCoordinates: boolean } | undefined, locale: LocaleOptions) {
+    if (!location) return undefined;
+    const { lat, lng } = await this.mapsTools.getLocation(location, locale);
+    return { lat, lng };
+  }
+
+  async autocomplete(
+    input: string,
+    options: Omit<AutocompleteOptions, "location"> & { location?: { value: string; isCoordinates: boolean } } = {},
+    locale?: LocaleArgs
+  ): Promise<ToolResponse<AutocompleteResult>> {
+    try {
+      const parsedLocale = parseLocale(locale);
+      const location = await this.biasLocation(options.location, parsedLocale);
+      return { success: true, data: await this.mapsTools.autocomplete(input, { ...options, location }, parsedLocale) };
+    } catch (error) {
+      return failure(error, "Error occurred during autocomplete");
+    }
+  }
+
+  async queryAutocomplete(
+    input: string,
+    options: { location?: { value: string; isCoordinates: boolean }; radius?: number } = {},
+    locale?: LocaleArgs
+  ): Promise<ToolResponse<QueryAutocompleteResult>> {
+    try {
+      const parsedLocale = parseLocale(locale);
+      const location = await this.biasLocation(options.location, parsedLocale);
+      return { success: true, data: await this.mapsTools.queryAutocomplete(input, { location, radius: options.radius }, parsedLocale) };
+    } catch (error) {
+      return failure(error, "Error occurred during query autocomplete");
+    }
+  }
+
+  /** Checks the opening hours at `openAt` in the place's time zone; see `parseOpenAt` for accepted values. */
+  private checkOpenAt(details: Place, openAt: OpenAtTime): OpenAtCheck {
+    const local = placeLocalTime(openAt, details.utc_offset);
+    if (!local) return {};
+    const periods = details.opening_hours?.periods;
+    return { ...describeLocalTime(local), is_open: periods?.length ? isOpenAt(periods, local) : undefined };
+  }
+
+  async getPlaceDetails(
+    placeId: string,
+    options: PlaceDetailsOptions & { openAt?: string | number } = {},
+    locale?: LocaleArgs
+  ): Promise<ToolResponse<PlaceDetails>> {
     try {
-      const details = await this.mapsTools.getPlaceDetails(placeId);
+      const { openAt: openAtArg, ...detailOptions } = options;
+      const openAt = openAtArg !== undefined ? parseOpenAt(openAtArg) : undefined;
+      const selected = selectedDetailFields(detailOptions);
+      // Opening hours are billed as Contact data, so the check only uses them when they were asked for.
+      if (openAt && !selected.has("opening_hours")) {
+        throw new InvalidArgumentError("openAt needs the opening_hours field or the contact or all preset");
+      }
+      // The time zone is Basic data and costs nothing extra, but is only returned when asked for.
+      if (openAt && !selected.has("utc_offset")) {
+        detailOptions.fields = [...(detailOptions.fields ?? []), "utc_offset"];
+      }
+      const details = await this.mapsTools.getPlaceDetails(placeId, detailOptions, parseLocale(locale));
+      const wheelchairAccessible = (details as { wheelchair_accessible_entrance?: boolean }).wheelchair_accessible_entrance;
 
       return {
         success: true,
@@ -114,105 +217,226 @@ export class PlacesSearcher {
           name: details.name,
           address: details.formatted_address,
           location: details.geometry?.location,
+          types: details.types?.map(String),
+          business_status: details.business_status,
+          url: details.url,
+          utc_offset: selected.has("utc_offset") ? details.utc_offset : undefined,
+          wheelchair_accessible_entrance: wheelchairAccessible,
           rating: details.rating,
           total_ratings: details.user_ratings_total,
           open_now: details.opening_hours?.open_now,
+          opening_hours: details.opening_hours && {
+            open_now: details.opening_hours.open_now,
+            weekday_text: details.opening_hours.weekday_text ?? [],
+            periods: (details.opening_hours.periods ?? []).map((period) => ({
+              open: { day: period.open.day, time: period.open.time ?? "0000" },
+              close: period.close && { day: period.close.day, time: period.close.time ?? "0000" },
+            })),
+          },
+          open_at: openAt && this.checkOpenAt(details, openAt),
           phone: details.formatted_phone_number,
+          international_phone: details.international_phone_number,
           website: details.website,
           price_level: details.price_level,
+          editorial_summary: details.editorial_summary?.overview,
           reviews: details.reviews?.map((review) => ({
             rating: review.rating,
             text: review.text,
-            time: review.time,
+            time: Number(review.time),
             author_name: review.author_name,
           })),
+          photos: details.photos?.map((photo) => ({
+            photo_reference: photo.photo_reference,
+            width: photo.width,
+            height: photo.height,
+            html_attributions: photo.html_attributions ?? [],
+          })),
         },
       };
     } catch (error) {
+      return failure(error, "Error occurred while fetching place details");
+    }
+  }
+
+  async getPlacePhoto(
+    photoReference: string,
+    options: { maxWidth?: number; maxHeight?: number; placeId?: string } = {}
+  ): Promise<ToolResponse<PlacePhoto>> {
+    try {
+      const photo = await this.mapsTools.getPlacePhoto(photoReference, options);
+
       return {
-        success: false,
-        error: error instanceof Error ? error.message : "Error occurred while fetching place details",
+        success: true,
+        data: photo,
       };
+    } catch (error) {
+      return failure(error, "Error occurred while fetching the place photo");
     }
   }
 
-  async geocode(address: string): Promise<GeocodeResponse> {
+  async geocode(address: string | undefined, options: GeocodeOptions = {}, locale?: LocaleArgs): Promise<ToolResponse<GeocodeResult>> {
     try {
-      const result = await this.mapsTools.geocode(address);
+      const result = await this.mapsTools.geocode(address, options, parseLocale(locale));
 
       return {
         success: true,
         data: result,
       };
     } catch (error) {
+      return failure(error, "Error occurred while converting address to coordinates");
+    }
+  }
+
+  async reverseGeocode(
+    latitude: number,
+    longitude: number,
+    options: ReverseGeocodeOptions = {},
+    locale?: LocaleArgs
+  ): Promise<ToolResponse<GeocodeResult>> {
+    try {
+      const result = await this.mapsTools.reverseGeocode(latitude, longitude, options, parseLocale(locale));
+
       return {
-        success: false,
-        error: error instanceof Error ? error.message : "Error occurred while converting address to coordinates",
+        success: true,
+        data: result,
       };
+    } catch (error) {
+      return failure(error, "Error occurred while converting coordinates to address");
     }
   }
 
-  async reverseGeocode(latitude: number, longitude: number): Promise<ReverseGeocodeResponse> {
+  async batchGeocode(
+    addresses: string[],
+    options: GeocodeOptions = {},
+    concurrency?: number,
+    locale?: LocaleArgs
+  ): Promise<ToolResponse<BatchGeocodeResult>> {
     try {
-      const result = await this.mapsTools.reverseGeocode(latitude, longitude);
+      const result = await this.mapsTools.batchGeocode(addresses, options, parseLocale(locale), concurrency);
 
       return {
         success: true,
         data: result,
       };
     } catch (error) {
+      return failure(error, "Error occurred while geocoding addresses");
+    }
+  }
+
+  async batchReverseGeocode(
+    locations: Array<{ latitude: number; longitude: number }>,
+    options: ReverseGeocodeOptions = {},
+    concurrency?: number,
+    locale?: LocaleArgs
+  ): Promise<ToolResponse<BatchReverseGeocodeResult>> {
+    try {
+      const result = await this.mapsTools.batchReverseGeocode(locations, options, parseLocale(locale), concurrency);
+
       return {
-        success: false,
-        error: error instanceof Error ? error.message : "Error occurred while converting coordinates to address",
+        success: true,
+        data: result,
       };
+    } catch (error) {
+      return failure(error, "Error occurred while converting coordinates to addresses");
     }
   }
 
-  async calculateDistanceMatrix(origins: string[], destinations: string[], mode: "driving" | "walking" | "bicycling" | "transit" = "driving"): Promise<DistanceMatrixResponse> {
+  async calculateDistanceMatrix(
+    origins: string[],
+    destinations: string[],
+    mode: "driving" | "walking" | "bicycling" | "transit" = "driving",
+    options: RouteOptions = {},
+    locale?: LocaleArgs
+  ): Promise<ToolResponse<DistanceMatrixResult>> {
     try {
-      const result = await this.mapsTools.calculateDistanceMatrix(origins, destinations, mode);
+      const result = await this.mapsTools.calculateDistanceMatrix(origins, destinations, mode, options, parseLocale(locale));
 
       return {
         success: true,
         data: result,
       };
     } catch (error) {
+      return failure(error, "Error occurred while calculating distance matrix");
+    }
+  }
+
+  async findMeetingPlace(params: MeetingPlaceParams, options: RouteOptions = {}, locale?: LocaleArgs): Promise<ToolResponse<MeetingPlaceResult>> {
+    try {
+      const { places, ...result } = await this.mapsTools.findMeetingPlace(params, options, parseLocale(locale));
       return {
-        success: false,
-        error: error instanceof Error ? error.message : "Error occurred while calculating distance matrix",
+        success: true,
+        data: { ...result, places: places.map(({ place, ...scores }) => ({ ...this.formatPlace(place), ...scores })) },
       };
+    } catch (error) {
+      return failure(error, "Error occurred while finding a meeting place");
     }
   }
 
-  async getDirections(origin: string, destination: string, mode: "driving" | "walking" | "bicycling" | "transit" = "driving"): Promise<DirectionsResponse> {
+  async getReachability(
+    center: { value: string; isCoordinates: boolean },
+    params: ReachabilityParams,
+    options: RouteOptions = {},
+    locale?: LocaleArgs
+  ): Promise<ToolResponse<ReachabilityResult>> {
     try {
-      const result = await this.mapsTools.getDirections(origin, destination, mode);
+      const parsedLocale = parseLocale(locale);
+      const location = await this.mapsTools.getLocation(center, parsedLocale);
+      return { success: true, data: await this.mapsTools.getReachability(location, params, options, parsedLocale) };
+    } catch (error) {
+      return failure(error, "Error occurred while calculating the reachable area");
+    }
+  }
+
+  async optimizeRoute(params: OptimizeRouteParams, options: RouteOptions = {}, locale?: LocaleArgs): Promise<ToolResponse<OptimizedRoute>> {
+    try {
+      return { success: true, data: await this.mapsTools.optimizeRoute(params, options, parseLocale(locale)) };
+    } catch (error) {
+      return failure(error, "Error occurred while optimizing the route");
+    }
+  }
+
+  async getDirections(
+    origin: string,
+    destination: string,
+    mode: "driving" | "walking" | "bicycling" | "transit" = "driving",
+    options: DirectionsOptions = {},
+    locale?: LocaleArgs
+  ): Promise<ToolResponse<DirectionsResult>> {
+    try {
+      const result = await this.mapsTools.getDirections(origin, destination, mode, options, parseLocale(locale));
 
       return {
         success: true,
         data: result,
       };
     } catch (error) {
+      return failure(error, "Error occurred while fetching directions");
+    }
+  }
+
+  async getElevation(locations: Array<{ latitude: number; longitude: number }>): Promise<ToolResponse<ElevationResult>> {
+    try {
+      const results = await this.mapsTools.getElevation(locations);
+
       return {
-        success: false,
-        error: error instanceof Error ? error.message : "Error occurred while fetching directions",
+        success: true,
+        data: { results },
       };
+    } catch (error) {
+      return failure(error, "Error occurred while fetching elevation data");
     }
   }
 
-  async getElevation(locations: Array<{ latitude: number; longitude: number }>): Promise<ElevationResponse> {
+  async getElevationProfile(params: ElevationProfileParams, locale?: LocaleArgs): Promise<ToolResponse<ElevationProfile>> {
     try {
-      const result = await this.mapsTools.getElevation(locations);
+      const result = await this.mapsTools.getElevationProfile(params, parseLocale(locale));
 
       return {
         success: true,
         data: result,
       };
     } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : "Error occurred while fetching elevation data",
-      };
+      return failure(error, "Error occurred while building the elevation profile");
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,124 @@
+import { InvalidArgumentError, MapsError, MapsErrorDetails, ValidationError } from "./errors.js";
+import { PlacesSearcher, ToolResponse } from "./searchPlaces.js";
+import { JsonSchema, validateArguments } from "./validation.js";
+
+export type ToolContent = { type: "text"; text: string } | { type: "image"; data: string; mimeType: string };
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema;
+  outputSchema: JsonSchema;
+}
+
+/** A tool's MCP definition together with the code that serves it. */
+export interface MapsTool<Args = unknown, Data = unknown> {
+  definition: ToolDefinition;
+  /** Error text used when a failed response carries no message of its own. */
+  errorMessage: string;
+  /** Receives arguments already validated against `definition.inputSchema`, defaults applied. */
+  handle(searcher: PlacesSearcher, args: Args): Promise<ToolResponse<Data>>;
+  /**
+   * Text content for clients without structured output support; `data` itself is
+   * returned as `structuredContent` and should match `definition.outputSchema`.
+   */
+  format(data: Data): string | ToolContent[];
+  /** Narrows `data` to what is returned as `structuredContent`, e.g. to leave out binary payloads. */
+  structuredContent?(data: Data): object;
+}
+
+/**
+ * Identity function that lets TypeScript infer `Args` and `Data` from the handler, so that
+ * `format` and `structuredContent` are checked against its result. Registries hold the
+ * typed tools as plain `MapsTool`s; their arguments come from `validateArguments`.
+ */
+export function defineTool<Args, Data>(tool: MapsTool<Args, Data>): MapsTool<Args, Data> {
+  return tool;
+}
+
+/**
+ * Tool error content as JSON with a machine-readable `code`, a `retryable` flag and a
+ * `hint`, so agents can tell "no results" apart from e.g. an invalid API key.
+ */
+function errorResponse(result: { error?: string; details?: MapsErrorDetails }, fallbackMessage: string) {
+  const details: MapsErrorDetails = result.details ?? { code: "INTERNAL_ERROR", message: result.error || fallbackMessage, retryable: false };
+  return {
+    content: [{ type: "text", text: JSON.stringify({ error: details }, null, 2) }],
+    isError: true,
+  };
+}
+
+/** The set of tools a server exposes; lists their definitions and dispatches calls by name. */
+export class ToolRegistry {
+  private readonly tools = new Map<string, MapsTool>();
+
+  constructor(tools: MapsTool[]) {
+    for (const tool of tools) {
+      if (this.tools.has(tool.definition.name)) throw new Error(`Duplicate tool '${tool.definition.name}'`);
+      this.tools.set(tool.definition.name, tool);
+    }
+  }
+
+  list(): ToolDefinition[] {
+    return [...this.tools.values()].map((tool) => tool.definition);
+  }
+
+  async call(searcher: PlacesSearcher, name: string, args: Record<string, unknown> | undefined) {
+    try {
+      const tool = this.tools.get(name);
+      if (!tool) throw new InvalidArgumentError(`Unknown tool '${name}'`);
+
+      const response = await tool.handle(searcher, validateArguments(tool.definition.inputSchema, args));
+      if (!response.success) return errorResponse(response, tool.errorMessage);
+
+      const text = tool.format(response.data);
+      return {
+        content: typeof text === "string" ? [{ type: "text", text }] : text,
+        structuredContent: (tool.structuredContent ? tool.structuredContent(response.data) : response.data) as Record<string, unknown>,
+        isError: false,
+      };
+    } catch (error) {
+      return errorResponse(
+        { error: error instanceof Error ? error.message : String(error), details: error instanceof MapsError ? error.toJSON() : undefined },
+        "Tool call failed"
+      );
+    }
+  }
+}
+
+/**
+ * Replaces the declared defaults of `tool`'s arguments, e.g. `{ radius: 500 }` for
+ * `search_nearby`. They are checked against the argument schemas and advertised to
+ * clients with the definition, like the built-in defaults.
+ */
+export function withArgumentDefaults(tool: MapsTool, defaults: Record<string, unknown>): MapsTool {
+  const { name, inputSchema } = tool.definition;
+  const properties = { ...inputSchema.properties };
+  for (const [argument, value] of Object.entries(defaults)) {
+    const property = properties[argument];
+    if (!property) throw new Error(`Unknown argument '${argument}' of tool '${name}', expected one of ${Object.keys(properties).join(", ")}`);
+    try {
+      validateArguments({ type: "object", properties: { [argument]: property } }, { [argument]: value });
+    } catch (error) {
+      if (!(error instanceof ValidationError)) throw error;
+      throw new Error(`Invalid default for ${name}: ${Object.entries(error.fields).map(([field, message]) => `${field} ${message}`).join("; ")}`);
+    }
+    properties[argument] = { ...property, default: value };
+  }
+  return { ...tool, definition: { ...tool.definition, inputSchema: { ...inputSchema, properties } } };
+}
+
+/**
+ * Narrows `tools` to an allow list (`enabled`) and then removes a deny list (`disabled`).
+ * Unknown names are rejected so that typos in the configuration do not go unnoticed.
+ */
+export function selectTools(tools: MapsTool[], options: { enabled?: string[]; disabled?: string[] }): MapsTool[] {
+  const names = new Set(tools.map((tool) => tool.definition.name));
+  for (const name of [...(options.enabled ?? []), ...(options.disabled ?? [])]) {
+    if (!names.has(name)) throw new Error(`Unknown tool '${name}', expected one of ${[...names].join(", ")}`);
+  }
+
+  return tools.filter(
+    (tool) => (!options.enabled || options.enabled.includes(tool.definition.name)) && !options.disabled?.includes(tool.definition.name)
+  );
+}
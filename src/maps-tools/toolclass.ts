@@ -1,7 +1,102 @@
-import { Client, Language, TravelMode } from "@googlemaps/google-maps-services-js";
-import dotenv from "dotenv";
+import {
+  AddressType,
+  DirectionsRoute,
+  DirectionsStep,
+  GeocodeResult as GoogleGeocodeResult,
+  LatLngLiteral,
+  PlaceAutocompleteType,
+  PlaceType1,
+  PlacesNearbyRanking,
+  PlacesNearbyRequest,
+  ReverseGeocodingLocationType,
+  TrafficModel,
+  TransitMode,
+  TransitRoutingPreference,
+  TravelMode,
+  TravelRestriction,
+  UnitSystem,
+} from "@googlemaps/google-maps-services-js";
+import { randomUUID } from "crypto";
+import { mapConcurrent, runBatch } from "./batch.js";
+import { formatDistance, formatDuration, stripHtml } from "./format.js";
+import { InvalidArgumentError, NoResultsError, statusError, toMapsError, UpstreamError } from "./errors.js";
+import { decodePolyline, geographicMidpoint, haversineDistance, polygonArea, resamplePath, toLatLngLiteral } from "./geo.js";
+import { LocaleOptions } from "./locale.js";
+import { createLogger, Logger } from "./logger.js";
+import { MapsProvider } from "./providers/index.js";
+import { ProviderParams } from "./providers/types.js";
+import { radialSamples, reachableBoundary, SAMPLING_SPEEDS } from "./reachability.js";
+import { scheduleTour, solveTour, VisitWindow } from "./routeOptimizer.js";
+import {
+  AutocompleteResult,
+  BatchGeocodeResult,
+  BatchReverseGeocodeResult,
+  DirectionsResult,
+  DistanceMatrixResult,
+  ElevationPoint,
+  ElevationProfile,
+  GeocodeCandidate,
+  GeocodeResult,
+  MeetingPlace,
+  MeetingPlaceResult,
+  OptimizedRoute,
+  OptimizedStop,
+  PlacePhoto,
+  PlaceSummary,
+  QueryAutocompleteResult,
+  ReachabilityResult,
+  ResolvedLocation,
+  RouteLegSummary,
+  RouteStepSummary,
+  RouteSummary,
+  TextValue,
+} from "./results.js";
+import { exportRoute, RouteExportFormat, routePath } from "./routeExport.js";
 
-dotenv.config();
+/** Maximum number of intermediate waypoints accepted by the Directions API. */
+const MAX_WAYPOINTS = 25;
+
+/** Maximum number of locations per Elevation API request; longer lists are split. */
+const MAX_ELEVATION_LOCATIONS = 512;
+/** Upper bound for elevation profile samples, i.e. at most two Elevation API requests. */
+const MAX_PROFILE_SAMPLES = 1024;
+
+/** Google returns at most 3 pages of 20 results for a nearby search. */
+const MAX_NEARBY_PAGES = 3;
+/** How often a fresh page token is retried while Google still reports it as invalid. */
+const PAGE_TOKEN_RETRIES = 2;
+
+/** Place Photos accepts sizes from 1 to 1600 pixels; without either limit this width is used. */
+const DEFAULT_PHOTO_MAX_WIDTH = 800;
+
+/** Autocomplete ignores a bias location without a radius, so this one applies when none is given. */
+const DEFAULT_AUTOCOMPLETE_RADIUS = 20000;
+
+/** The Distance Matrix API accepts at most 25 destinations and 100 elements per request. */
+const MAX_MATRIX_DESTINATIONS = 25;
+const MAX_MATRIX_ELEMENTS = 100;
+
+/** Square blocks of the travel time matrix fetched per request, within both limits above. */
+const MATRIX_BLOCK_SIZE = 10;
+
+/** Meeting place candidates come from one page of nearby results. */
+const MAX_MEETING_CANDIDATES = 20;
+
+/** Batch lookups running at the same time unless the caller asks for a different number. */
+const DEFAULT_BATCH_CONCURRENCY = 5;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Accepts "now" (when `allowNow`, i.e. not for transit arrivals), a Unix timestamp in seconds or an ISO 8601 date. */
+function parseTime(value: string | number, field: string, allowNow: boolean): number | "now" {
+  if (value === "now" && allowNow) return "now";
+  if (typeof value === "number" || /^\d+$/.test(value)) return Number(value);
+  const ms = Date.parse(value);
+  if (isNaN(ms)) {
+    throw new InvalidArgumentError(`Invalid ${field} '${value}', expected ${allowNow ? '"now", ' : ""}a Unix timestamp or an ISO 8601 date`);
+  }
+  return Math.floor(ms / 1000);
+}
 
 interface SearchParams {
   location: { lat: number; lng: number };
@@ -9,266 +104,1149 @@ interface SearchParams {
   keyword?: string;
   openNow?: boolean;
   minRating?: number;
+  maxResults?: number;
+  pageToken?: string;
+  rankBy?: "prominence" | "distance";
 }
 
-interface PlaceResult {
+interface TextSearchParams {
+  query: string;
+  location?: { lat: number; lng: number };
+  radius?: number;
+  type?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  pageToken?: string;
+}
+
+export interface PlaceResult {
   name: string;
   place_id: string;
   formatted_address?: string;
+  vicinity?: string;
   geometry: { location: { lat: number; lng: number } };
   rating?: number;
   user_ratings_total?: number;
   opening_hours?: { open_now?: boolean };
 }
 
-interface GeocodeResult {
-  lat: number;
-  lng: number;
-  formatted_address?: string;
-  place_id?: string;
+/** Place details output fields and the Google fields they are built from. */
+const PLACE_DETAIL_FIELDS = {
+  name: ["name"],
+  address: ["formatted_address"],
+  location: ["geometry"],
+  types: ["type"],
+  business_status: ["business_status"],
+  url: ["url"],
+  utc_offset: ["utc_offset"],
+  wheelchair_accessible_entrance: ["wheelchair_accessible_entrance"],
+  photos: ["photos"],
+  phone: ["formatted_phone_number"],
+  international_phone: ["international_phone_number"],
+  website: ["website"],
+  opening_hours: ["opening_hours"],
+  rating: ["rating"],
+  total_ratings: ["user_ratings_total"],
+  price_level: ["price_level"],
+  reviews: ["reviews"],
+  editorial_summary: ["editorial_summary"],
+} satisfies Record<string, string[]>;
+
+export type PlaceDetailField = keyof typeof PLACE_DETAIL_FIELDS;
+
+export type PlaceDetailPreset = "basic" | "contact" | "atmosphere" | "all";
+
+const BASIC_FIELDS: PlaceDetailField[] = [
+  "name",
+  "address",
+  "location",
+  "types",
+  "business_status",
+  "url",
+  "utc_offset",
+  "wheelchair_accessible_entrance",
+  "photos",
+];
+
+/**
+ * Google bills Place Details by the data categories requested (Basic, Contact and
+ * Atmosphere), so each preset adds one category to the basic fields.
+ */
+const PLACE_DETAIL_PRESETS: Record<PlaceDetailPreset, PlaceDetailField[]> = {
+  basic: BASIC_FIELDS,
+  contact: [...BASIC_FIELDS, "phone", "international_phone", "website", "opening_hours"],
+  atmosphere: [...BASIC_FIELDS, "rating", "total_ratings", "price_level", "reviews", "editorial_summary"],
+  all: Object.keys(PLACE_DETAIL_FIELDS) as PlaceDetailField[],
+};
+
+/** The output fields that `options` select. */
+export function selectedDetailFields(options: PlaceDetailsOptions): Set<PlaceDetailField> {
+  const preset = options.preset ?? (options.fields?.length ? undefined : "all");
+  return new Set([...(preset ? PLACE_DETAIL_PRESETS[preset] : []), ...(options.fields ?? [])]);
+}
+
+/** `fields` plus the fields of `preset`; the `all` preset when neither is given. */
+export interface PlaceDetailsOptions {
+  fields?: PlaceDetailField[];
+  preset?: PlaceDetailPreset;
+  /** Ends an autocomplete session, so that it is billed as one request. */
+  sessionToken?: string;
+}
+
+export interface AutocompleteOptions {
+  location?: LatLngLiteral;
+  radius?: number;
+  /** Only return places within `radius` of `location` instead of preferring them. */
+  strictBounds?: boolean;
+  /** Two-letter country codes, at most 5. */
+  countries?: string[];
+  types?: "geocode" | "address" | "establishment" | "(regions)" | "(cities)";
+  sessionToken?: string;
+}
+
+export interface RouteOptions {
+  avoid?: Array<"tolls" | "highways" | "ferries" | "indoor">;
+  departureTime?: string | number;
+  arrivalTime?: string | number;
+  trafficModel?: "best_guess" | "pessimistic" | "optimistic";
+  units?: "metric" | "imperial";
+  transitMode?: Array<"bus" | "subway" | "train" | "tram" | "rail">;
+  transitRoutingPreference?: "less_walking" | "fewer_transfers";
+}
+
+/**
+ * How much of a route is returned: `summary` only has totals and legs, `steps` adds
+ * turn-by-turn instructions and `full` adds polylines, locations and warnings.
+ */
+export type DirectionsVerbosity = "summary" | "steps" | "full";
+
+export interface DirectionsOptions extends RouteOptions {
+  waypoints?: string[];
+  optimizeWaypoints?: boolean;
+  alternatives?: boolean;
+  verbosity?: DirectionsVerbosity;
+  /** Also return the route geometry as GeoJSON, GPX or KML. */
+  format?: "json" | RouteExportFormat;
+}
+
+/** Filters and biases for forward geocoding. */
+export interface GeocodeOptions {
+  /** Restricts results to matching components, e.g. `{ country: "US", postalCode: "62701" }`. */
+  components?: { country?: string; postalCode?: string; administrativeArea?: string; locality?: string; route?: string };
+  /** Prefers (but does not restrict to) results inside this box. */
+  bounds?: { south: number; west: number; north: number; east: number };
+}
+
+/** Post-search filters for reverse geocoding; only results matching all given filters are returned. */
+export interface ReverseGeocodeOptions {
+  resultType?: string[];
+  locationType?: Array<"ROOFTOP" | "RANGE_INTERPOLATED" | "GEOMETRIC_CENTER" | "APPROXIMATE">;
+}
+
+export interface ElevationProfileParams {
+  path?: Array<{ latitude: number; longitude: number }>;
+  polyline?: string;
+  origin?: string;
+  destination?: string;
+  mode?: "driving" | "walking" | "bicycling";
+  samples?: number;
+}
+
+export interface ReachabilityParams {
+  mode?: "driving" | "walking" | "bicycling" | "transit";
+  maxMinutes: number;
+  /** Sampled directions around the center and sample rings per direction. */
+  directions?: number;
+  rings?: number;
+  /** Radius of the outermost ring; estimated from the mode and time budget by default. */
+  maxRadius?: number;
+}
+
+export interface RouteStop {
+  location: string;
+  /** Time window for arriving at the stop: "now", a Unix timestamp or an ISO 8601 date. */
+  arriveAfter?: string | number;
+  arriveBefore?: string | number;
+  /** Time spent at the stop before moving on. */
+  serviceMinutes?: number;
 }
 
+export interface OptimizeRouteParams {
+  /** Addresses or coordinates, or stops with time windows. */
+  stops: Array<string | RouteStop>;
+  /** Fixed first and last location, not part of `stops`. */
+  start?: string;
+  end?: string;
+  /** Come back to the start, or to the first stop without one. */
+  returnToStart?: boolean;
+  mode?: "driving" | "walking" | "bicycling" | "transit";
+}
+
+export interface MeetingPlaceParams {
+  /** Addresses or `lat,lng` coordinates. */
+  participants: string[];
+  keyword: string;
+  mode?: "driving" | "walking" | "bicycling" | "transit";
+  /** Minimize the longest trip (fairest) or the sum of all trips. */
+  objective?: "minimax" | "total";
+  /** Search radius around the midpoint; scales with how far apart the participants are by default. */
+  radius?: number;
+  openNow?: boolean;
+  maxResults?: number;
+}
+
+/** A scored meeting place candidate; the searcher turns `place` into a summary. */
+export type ScoredMeetingPlace = Omit<MeetingPlace, keyof PlaceSummary> & { place: PlaceResult };
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const round6 = (value: number) => Math.round(value * 1e6) / 1e6;
+
 export class GoogleMapsTools {
-  private client: Client;
-  private readonly defaultLanguage: Language = Language.en;
+  constructor(
+    private readonly provider: MapsProvider,
+    private readonly defaultLocale: LocaleOptions = {},
+    private readonly logger: Logger = createLogger()
+  ) {}
 
-  constructor() {
-    this.client = new Client({});
-    if (!process.env.GOOGLE_MAPS_API_KEY) {
-      throw new Error("Google Maps API Key is required");
+  /** Maps route options to request parameters shared by the Directions and Distance Matrix APIs. */
+  private routeParams(options: RouteOptions) {
+    if (options.departureTime !== undefined && options.arrivalTime !== undefined) {
+      throw new InvalidArgumentError("Specify either departureTime or arrivalTime, not both");
+    }
+    if (options.trafficModel && options.departureTime === undefined) {
+      throw new InvalidArgumentError("trafficModel requires departureTime");
     }
+
+    return {
+      avoid: options.avoid?.length ? (options.avoid as TravelRestriction[]) : undefined,
+      departure_time: options.departureTime !== undefined ? parseTime(options.departureTime, "departureTime", true) : undefined,
+      arrival_time: options.arrivalTime !== undefined ? (parseTime(options.arrivalTime, "arrivalTime", false) as number) : undefined,
+      traffic_model: options.trafficModel as TrafficModel | undefined,
+      units: options.units as UnitSystem | undefined,
+      transit_mode: options.transitMode?.length ? (options.transitMode as TransitMode[]) : undefined,
+      transit_routing_preference: options.transitRoutingPreference as TransitRoutingPreference | undefined,
+    };
   }
 
-  async searchNearbyPlaces(params: SearchParams): Promise<PlaceResult[]> {
+  /** A step with plain-text instructions; nested sub-steps and geometry only at `full` verbosity. */
+  private summarizeStep(step: DirectionsStep, verbosity: DirectionsVerbosity): RouteStepSummary {
+    const transit = step.transit_details;
+    // The SDK types `steps` as a single step, but the API returns an array.
+    const subSteps = step.steps as unknown as DirectionsStep[] | undefined;
+    const full = verbosity === "full";
+
+    return {
+      instruction: stripHtml(step.html_instructions ?? ""),
+      travel_mode: String(step.travel_mode).toLowerCase(),
+      maneuver: step.maneuver || undefined,
+      distance: { value: step.distance.value, text: step.distance.text },
+      duration: { value: step.duration.value, text: step.duration.text },
+      transit: transit && {
+        line: transit.line.short_name || transit.line.name,
+        vehicle: transit.line.vehicle?.name ?? "",
+        agency: transit.line.agencies?.[0]?.name,
+        headsign: transit.headsign,
+        departure_stop: transit.departure_stop.name,
+        arrival_stop: transit.arrival_stop.name,
+        departure_time: transit.departure_time?.text,
+        arrival_time: transit.arrival_time?.text,
+        num_stops: transit.num_stops,
+      },
+      start_location: full ? step.start_location : undefined,
+      end_location: full ? step.end_location : undefined,
+      polyline: full ? step.polyline?.points : undefined,
+      steps: full && subSteps?.length ? subSteps.map((subStep) => this.summarizeStep(subStep, verbosity)) : undefined,
+    };
+  }
+
+  /** Per-leg figures plus totals summed over all legs. A single leg keeps Google's own text. */
+  private summarizeRoute(route: DirectionsRoute, units?: "metric" | "imperial", verbosity: DirectionsVerbosity = "summary"): RouteSummary {
+    const full = verbosity === "full";
+    const legs: RouteLegSummary[] = route.legs.map((leg) => ({
+      start_address: leg.start_address,
+      end_address: leg.end_address,
+      distance: { value: leg.distance.value, text: leg.distance.text },
+      duration: { value: leg.duration.value, text: leg.duration.text },
+      duration_in_traffic: leg.duration_in_traffic && { value: leg.duration_in_traffic.value, text: leg.duration_in_traffic.text },
+      departure_time: leg.departure_time?.text,
+      arrival_time: leg.arrival_time?.text,
+      start_location: full ? leg.start_location : undefined,
+      end_location: full ? leg.end_location : undefined,
+      steps: verbosity === "summary" ? undefined : leg.steps.map((step) => this.summarizeStep(step, verbosity)),
+    }));
+
+    const single = legs.length === 1 ? legs[0] : undefined;
+    const totalDistance = legs.reduce((sum, leg) => sum + leg.distance.value, 0);
+    const totalDuration = legs.reduce((sum, leg) => sum + leg.duration.value, 0);
+    const hasTraffic = legs.length > 0 && legs.every((leg) => leg.duration_in_traffic);
+    const totalInTraffic = legs.reduce((sum, leg) => sum + (leg.duration_in_traffic?.value ?? 0), 0);
+
+    return {
+      summary: route.summary,
+      total_distance: { value: totalDistance, text: single ? single.distance.text : formatDistance(totalDistance, units) },
+      total_duration: { value: totalDuration, text: single ? single.duration.text : formatDuration(totalDuration) },
+      total_duration_in_traffic: hasTraffic
+        ? { value: totalInTraffic, text: single ? single.duration_in_traffic!.text : formatDuration(totalInTraffic) }
+        : undefined,
+      legs,
+      warnings: route.warnings?.length ? route.warnings : undefined,
+      overview_polyline: full ? route.overview_polyline?.points : undefined,
+      copyrights: full ? route.copyrights : undefined,
+    };
+  }
+
+  /** Per-request language/region, falling back to the server defaults. */
+  private locale(locale: LocaleOptions = {}) {
+    return {
+      language: locale.language ?? this.defaultLocale.language,
+      region: locale.region ?? this.defaultLocale.region,
+    };
+  }
+
+  /**
+   * Fetches a page by token. Tokens only become valid a short while after they are
+   * issued, so fresh tokens are fetched after the provider's delay and retried while
+   * the provider still answers INVALID_REQUEST.
+   */
+  private async fetchNearbyPage(params: ProviderParams<PlacesNearbyRequest>, freshToken: boolean) {
+    const delay = this.provider.pageTokenDelayMs ?? 0;
+    for (let attempt = 0; ; attempt++) {
+      if (freshToken || attempt > 0) await sleep(delay);
+      const canRetry = attempt < PAGE_TOKEN_RETRIES;
+      try {
+        const response = await this.provider.placesNearby(params);
+        if (response.status !== "INVALID_REQUEST" || !canRetry) return response;
+      } catch (error) {
+        // The Google client reports INVALID_REQUEST as an HTTP 400 error rather than a status.
+        if (!canRetry || toMapsError(error, "Nearby search").code !== "INVALID_REQUEST") throw error;
+      }
+    }
+  }
+
+  async searchNearbyPlaces(params: SearchParams, locale?: LocaleOptions): Promise<{ results: PlaceResult[]; next_page_token?: string }> {
+    const rankBy = params.rankBy || "prominence";
+    if (rankBy === "distance" && !params.keyword) {
+      throw new InvalidArgumentError("Ranking by distance requires a keyword");
+    }
+
+    const maxResults = params.maxResults || 20;
     const searchParams = {
       location: params.location,
-      radius: params.radius || 1000,
+      radius: rankBy === "distance" ? undefined : params.radius || 1000,
+      rankby: rankBy === "distance" ? PlacesNearbyRanking.distance : undefined,
       keyword: params.keyword,
       opennow: params.openNow,
-      language: this.defaultLanguage,
-      key: process.env.GOOGLE_MAPS_API_KEY || "",
+      language: this.locale(locale).language,
     };
 
     try {
-      const response = await this.client.placesNearby({ params: searchParams });
-      let results = response.data.results;
-      if (params.minRating) {
-        results = results.filter(place => (place.rating || 0) >= params.minRating);
+      const results: PlaceResult[] = [];
+      let response = params.pageToken
+        ? await this.fetchNearbyPage({ ...searchParams, pagetoken: params.pageToken }, false)
+        : await this.provider.placesNearby(searchParams);
+
+      for (let page = 1; ; page++) {
+        if (response.status !== "OK" && response.status !== "ZERO_RESULTS") throw statusError(response.status, response.error_message, "Nearby search");
+
+        const minRating = params.minRating;
+        const pageResults = minRating ? response.results.filter(place => (place.rating || 0) >= minRating) : response.results;
+        results.push(...(pageResults as PlaceResult[]));
+
+        if (results.length >= maxResults || !response.next_page_token || page >= MAX_NEARBY_PAGES) break;
+        response = await this.fetchNearbyPage({ ...searchParams, pagetoken: response.next_page_token }, true);
       }
-      return results as PlaceResult[];
+
+      // A token after a truncated page would skip the places cut off here, so there is none then.
+      return {
+        results: results.slice(0, maxResults),
+        next_page_token: results.length > maxResults ? undefined : response.next_page_token,
+      };
     } catch (error) {
-      console.error("Error in searchNearbyPlaces:", error);
-      throw new Error("An error occurred while searching for nearby places");
+      this.logger.error("Error in searchNearbyPlaces:", error);
+      throw toMapsError(error, "Nearby search");
     }
   }
 
-  async getPlaceDetails(placeId: string) {
+  async textSearchPlaces(params: TextSearchParams, locale?: LocaleOptions): Promise<{ results: PlaceResult[]; next_page_token?: string }> {
     try {
-      const response = await this.client.placeDetails({
-        params: {
-          place_id: placeId,
-          fields: ["name", "rating", "formatted_address", "opening_hours", "reviews", "geometry", "formatted_phone_number", "website", "price_level", "photos"],
-          language: this.defaultLanguage,
-          key: process.env.GOOGLE_MAPS_API_KEY || "",
-        },
+      const response = await this.provider.textSearch({
+        query: params.query,
+        location: params.location,
+        radius: params.radius,
+        type: params.type as PlaceType1 | undefined,
+        minprice: params.minPrice,
+        maxprice: params.maxPrice,
+        pagetoken: params.pageToken,
+        ...this.locale(locale),
       });
-      return response.data.result;
+
+      if (response.status !== "OK" && response.status !== "ZERO_RESULTS") throw statusError(response.status, response.error_message, "Text search");
+
+      return {
+        results: response.results as PlaceResult[],
+        next_page_token: response.next_page_token,
+      };
     } catch (error) {
-      console.error("Error in getPlaceDetails:", error);
-      throw new Error("An error occurred while fetching place details");
+      this.logger.error("Error in textSearchPlaces:", error);
+      throw toMapsError(error, "Text search");
     }
   }
 
-  private async geocodeAddress(address: string): Promise<GeocodeResult> {
+  /**
+   * Place predictions for a partial or misspelled name. Google bills the requests of a
+   * session together with the `getPlaceDetails` call that ends it, so a session token is
+   * created when none is given and returned for reuse.
+   */
+  async autocomplete(input: string, options: AutocompleteOptions = {}, locale?: LocaleOptions): Promise<AutocompleteResult> {
+    if (options.strictBounds && !options.location) throw new InvalidArgumentError("strictBounds requires a location");
+    const sessionToken = options.sessionToken ?? randomUUID();
     try {
-      const response = await this.client.geocode({
-        params: {
-          address,
-          key: process.env.GOOGLE_MAPS_API_KEY || "",
-          language: this.defaultLanguage,
-        },
+      const response = await this.provider.placeAutocomplete({
+        input,
+        sessiontoken: sessionToken,
+        location: options.location,
+        origin: options.location,
+        radius: options.location ? (options.radius ?? DEFAULT_AUTOCOMPLETE_RADIUS) : undefined,
+        strictbounds: options.strictBounds || undefined,
+        components: options.countries?.map((country) => `country:${country.toLowerCase()}`),
+        types: options.types as PlaceAutocompleteType | undefined,
+        language: this.locale(locale).language,
+      });
+      if (response.status !== "OK" && response.status !== "ZERO_RESULTS") throw statusError(response.status, response.error_message, "Autocomplete");
+
+      return {
+        session_token: sessionToken,
+        predictions: response.predictions.map((prediction) => ({
+          description: prediction.description,
+          place_id: prediction.place_id,
+          main_text: prediction.structured_formatting?.main_text ?? prediction.description,
+          secondary_text: prediction.structured_formatting?.secondary_text || undefined,
+          types: prediction.types.map(String),
+          distance_meters: prediction.distance_meters,
+        })),
+      };
+    } catch (error) {
+      this.logger.error("Error in autocomplete:", error);
+      throw toMapsError(error, "Autocomplete");
+    }
+  }
+
+  /** Suggested searches and places for a partial query such as "pizza near par"; billed per request. */
+  async queryAutocomplete(
+    input: string,
+    options: { location?: LatLngLiteral; radius?: number } = {},
+    locale?: LocaleOptions
+  ): Promise<QueryAutocompleteResult> {
+    try {
+      const response = await this.provider.placeQueryAutocomplete({
+        input,
+        location: options.location,
+        radius: options.location ? (options.radius ?? DEFAULT_AUTOCOMPLETE_RADIUS) : undefined,
+        language: this.locale(locale).language,
+      });
+      if (response.status !== "OK" && response.status !== "ZERO_RESULTS") {
+        throw statusError(response.status, response.error_message, "Query autocomplete");
+      }
+
+      return {
+        predictions: response.predictions.map((prediction) => ({
+          description: prediction.description,
+          place_id: prediction.place_id,
+          types: prediction.types,
+        })),
+      };
+    } catch (error) {
+      this.logger.error("Error in queryAutocomplete:", error);
+      throw toMapsError(error, "Query autocomplete");
+    }
+  }
+
+  async getPlaceDetails(placeId: string, options: PlaceDetailsOptions = {}, locale?: LocaleOptions) {
+    const fields = selectedDetailFields(options);
+    try {
+      const response = await this.provider.placeDetails({
+        place_id: placeId,
+        fields: [...fields].flatMap((field) => PLACE_DETAIL_FIELDS[field]),
+        sessiontoken: options.sessionToken,
+        ...this.locale(locale),
       });
+      if (response.status !== "OK") throw statusError(response.status, response.error_message, "Fetching place details");
+      return response.result;
+    } catch (error) {
+      this.logger.error("Error in getPlaceDetails:", error);
+      throw toMapsError(error, "Fetching place details");
+    }
+  }
 
-      if (response.data.results.length === 0) {
-        throw new Error("Address not found");
+  /**
+   * Downloads a photo scaled to fit `maxWidth` and `maxHeight`. Attributions come from
+   * the photo's place, so they are only known when `placeId` is given.
+   */
+  async getPlacePhoto(
+    photoReference: string,
+    options: { maxWidth?: number; maxHeight?: number; placeId?: string } = {}
+  ): Promise<PlacePhoto> {
+    const maxWidth = options.maxWidth ?? (options.maxHeight === undefined ? DEFAULT_PHOTO_MAX_WIDTH : undefined);
+    try {
+      const [photo, place] = await Promise.all([
+        this.provider.placePhoto({ photoreference: photoReference, maxwidth: maxWidth, maxheight: options.maxHeight }),
+        options.placeId ? this.getPlaceDetails(options.placeId, { fields: ["photos"] }) : undefined,
+      ]);
+      if (!photo.contentType.startsWith("image/")) {
+        throw new UpstreamError(`Fetching place photo failed: expected an image, got '${photo.contentType || "no content type"}'`);
       }
 
-      const result = response.data.results[0];
       return {
-        lat: result.geometry.location.lat,
-        lng: result.geometry.location.lng,
-        formatted_address: result.formatted_address,
-        place_id: result.place_id,
+        photo_reference: photoReference,
+        mime_type: photo.contentType.split(";")[0].trim(),
+        size_bytes: photo.data.length,
+        html_attributions: place?.photos?.find((candidate) => candidate.photo_reference === photoReference)?.html_attributions ?? [],
+        data: photo.data.toString("base64"),
       };
     } catch (error) {
-      console.error("Error in geocodeAddress:", error);
-      throw new Error("An error occurred while converting address to coordinates");
+      this.logger.error("Error in getPlacePhoto:", error);
+      throw toMapsError(error, "Fetching place photo");
     }
   }
 
-  private parseCoordinates(coordString: string): GeocodeResult {
+  private toGeocodeCandidate(result: GoogleGeocodeResult): GeocodeCandidate {
+    return {
+      location: result.geometry.location,
+      formatted_address: result.formatted_address,
+      place_id: result.place_id,
+      location_type: String(result.geometry.location_type),
+      types: result.types.map(String),
+      viewport: result.geometry.viewport,
+      partial_match: result.partial_match || undefined,
+      address_components: result.address_components.map((component) => ({
+        long_name: component.long_name,
+        short_name: component.short_name,
+        types: component.types.map(String),
+      })),
+    };
+  }
+
+  private geocodeParams(address: string | undefined, options: GeocodeOptions) {
+    const { components, bounds } = options;
+    if (!address?.trim() && !Object.values(components ?? {}).some(Boolean)) throw new InvalidArgumentError("Either an address or components must be given");
+    if (bounds && bounds.south > bounds.north) throw new InvalidArgumentError("bounds.south must not be north of bounds.north");
+
+    return {
+      address: address?.trim() || undefined,
+      components: components && {
+        country: components.country,
+        postal_code: components.postalCode,
+        administrative_area: components.administrativeArea,
+        locality: components.locality,
+        route: components.route,
+      },
+      bounds: bounds && {
+        southwest: { lat: bounds.south, lng: bounds.west },
+        northeast: { lat: bounds.north, lng: bounds.east },
+      },
+    };
+  }
+
+  private async geocodeResults(address: string | undefined, options: GeocodeOptions, locale?: LocaleOptions): Promise<GoogleGeocodeResult[]> {
+    const params = this.geocodeParams(address, options);
+    try {
+      const response = await this.provider.geocode({
+        ...params,
+        ...this.locale(locale),
+      });
+
+      if (response.status !== "OK" && response.status !== "ZERO_RESULTS") throw statusError(response.status, response.error_message, "Geocoding");
+      if (response.results.length === 0) {
+        throw new NoResultsError("Address not found");
+      }
+      return response.results;
+    } catch (error) {
+      this.logger.error("Error in geocodeResults:", error);
+      throw toMapsError(error, "Geocoding");
+    }
+  }
+
+  /** Resolves a location argument; one that cannot be found is an argument error, not an empty search. */
+  private async geocodeAddress(address: string, locale?: LocaleOptions): Promise<ResolvedLocation> {
+    const [result] = await this.geocodeResults(address, {}, locale).catch((error) => {
+      if (!(error instanceof NoResultsError)) throw error;
+      throw new InvalidArgumentError(
+        `Location '${address}' could not be found`,
+        `Check the spelling of '${address}', add a city or country, or pass coordinates as 'latitude,longitude'`
+      );
+    });
+    return {
+      lat: result.geometry.location.lat,
+      lng: result.geometry.location.lng,
+      formatted_address: result.formatted_address,
+      place_id: result.place_id,
+    };
+  }
+
+  private parseCoordinates(coordString: string): ResolvedLocation {
     const coords = coordString.split(",").map(c => parseFloat(c.trim()));
     if (coords.length !== 2 || isNaN(coords[0]) || isNaN(coords[1])) {
-      throw new Error("Invalid coordinate format, expected 'latitude,longitude'");
+      throw new InvalidArgumentError("Invalid coordinate format, expected 'latitude,longitude'");
     }
     return { lat: coords[0], lng: coords[1] };
   }
 
-  async getLocation(center: { value: string; isCoordinates: boolean }): Promise<GeocodeResult> {
+  async getLocation(center: { value: string; isCoordinates: boolean }, locale?: LocaleOptions): Promise<ResolvedLocation> {
     if (center.isCoordinates) return this.parseCoordinates(center.value);
-    return this.geocodeAddress(center.value);
+    const location = await this.geocodeAddress(center.value, locale);
+    this.logger.debug(`Resolved '${center.value}' to`, location);
+    return location;
   }
 
-  async geocode(address: string): Promise<{ location: { lat: number; lng: number }; formatted_address: string; place_id: string }> {
-    try {
-      const result = await this.geocodeAddress(address);
-      return {
-        location: { lat: result.lat, lng: result.lng },
-        formatted_address: result.formatted_address || "",
-        place_id: result.place_id || "",
-      };
-    } catch (error) {
-      console.error("Error in geocode:", error);
-      throw new Error("An error occurred while converting address to coordinates");
-    }
+  /** All candidates for an address and/or components filter, best match first. */
+  async geocode(address: string | undefined, options: GeocodeOptions = {}, locale?: LocaleOptions): Promise<GeocodeResult> {
+    const results = await this.geocodeResults(address, options, locale);
+    return { results: results.map((result) => this.toGeocodeCandidate(result)) };
   }
 
-  async reverseGeocode(latitude: number, longitude: number): Promise<{ formatted_address: string; place_id: string; address_components: any[] }> {
+  /** All addresses at a location, from the most to the least specific one. */
+  async reverseGeocode(latitude: number, longitude: number, options: ReverseGeocodeOptions = {}, locale?: LocaleOptions): Promise<GeocodeResult> {
     try {
-      const response = await this.client.reverseGeocode({
-        params: {
-          latlng: { lat: latitude, lng: longitude },
-          language: this.defaultLanguage,
-          key: process.env.GOOGLE_MAPS_API_KEY || "",
-        },
+      const response = await this.provider.reverseGeocode({
+        latlng: { lat: latitude, lng: longitude },
+        result_type: options.resultType?.length ? (options.resultType as AddressType[]) : undefined,
+        location_type: options.locationType?.length ? (options.locationType as ReverseGeocodingLocationType[]) : undefined,
+        language: this.locale(locale).language,
       });
 
-      if (response.data.results.length === 0) {
-        throw new Error("Address not found for given coordinates");
+      if (response.status !== "OK" && response.status !== "ZERO_RESULTS") throw statusError(response.status, response.error_message, "Reverse geocoding");
+      if (response.results.length === 0) {
+        throw new NoResultsError(
+          options.resultType?.length || options.locationType?.length
+            ? "No address matching the resultType/locationType filters found for given coordinates"
+            : "Address not found for given coordinates"
+        );
       }
 
-      const result = response.data.results[0];
-      return {
-        formatted_address: result.formatted_address,
-        place_id: result.place_id,
-        address_components: result.address_components,
-      };
+      return { results: response.results.map((result) => this.toGeocodeCandidate(result)) };
     } catch (error) {
-      console.error("Error in reverseGeocode:", error);
-      throw new Error("An error occurred while converting coordinates to address");
+      this.logger.error("Error in reverseGeocode:", error);
+      throw toMapsError(error, "Reverse geocoding");
     }
   }
 
-  async calculateDistanceMatrix(origins: string[], destinations: string[], mode: "driving" | "walking" | "bicycling" | "transit" = "driving"): Promise<{
-    distances: any[][];
-    durations: any[][];
-    origin_addresses: string[];
-    destination_addresses: string[];
-  }> {
+  /**
+   * Geocodes every address on its own, keeping the best match; identical addresses
+   * (ignoring case and spacing) are looked up once. `options` apply to all addresses.
+   */
+  async batchGeocode(
+    addresses: string[],
+    options: GeocodeOptions = {},
+    locale?: LocaleOptions,
+    concurrency = DEFAULT_BATCH_CONCURRENCY
+  ): Promise<BatchGeocodeResult> {
+    return runBatch(
+      addresses,
+      { key: (address) => address.trim().toLowerCase().replace(/\s+/g, " "), concurrency, operation: "Geocoding" },
+      async (address) => (await this.geocode(address, options, locale)).results[0]
+    );
+  }
+
+  /** Reverse geocodes every location on its own, keeping the most specific address; locations equal to 6 decimals are looked up once. */
+  async batchReverseGeocode(
+    locations: Array<{ latitude: number; longitude: number }>,
+    options: ReverseGeocodeOptions = {},
+    locale?: LocaleOptions,
+    concurrency = DEFAULT_BATCH_CONCURRENCY
+  ): Promise<BatchReverseGeocodeResult> {
+    return runBatch(
+      locations,
+      { key: (location) => `${location.latitude.toFixed(6)},${location.longitude.toFixed(6)}`, concurrency, operation: "Reverse geocoding" },
+      async (location) => (await this.reverseGeocode(location.latitude, location.longitude, options, locale)).results[0]
+    );
+  }
+
+  async calculateDistanceMatrix(
+    origins: string[],
+    destinations: string[],
+    mode: "driving" | "walking" | "bicycling" | "transit" = "driving",
+    options: RouteOptions = {},
+    locale?: LocaleOptions
+  ): Promise<DistanceMatrixResult> {
+    const routeParams = this.routeParams(options);
+
     try {
-      const response = await this.client.distancematrix({
-        params: {
-          origins,
-          destinations,
-          mode: mode as TravelMode,
-          language: this.defaultLanguage,
-          key: process.env.GOOGLE_MAPS_API_KEY || "",
-        },
+      const result = await this.provider.distanceMatrix({
+        origins,
+        destinations,
+        mode: mode as TravelMode,
+        ...routeParams,
+        // The Distance Matrix API accepts "now" as well, the SDK types just don't say so.
+        departure_time: routeParams.departure_time as number | undefined,
+        ...this.locale(locale),
       });
 
-      const result = response.data;
-      if (result.status !== "OK") throw new Error(`Distance matrix calculation failed: ${result.status}`);
+      if (result.status !== "OK") throw statusError(result.status, result.error_message, "Distance matrix calculation");
 
-      const distances: any[][] = [];
-      const durations: any[][] = [];
+      const distances: Array<Array<TextValue | null>> = [];
+      const durations: Array<Array<TextValue | null>> = [];
+      const durationsInTraffic: Array<Array<TextValue | null>> = [];
 
-      result.rows.forEach((row: any) => {
-        const distanceRow: any[] = [];
-        const durationRow: any[] = [];
+      result.rows.forEach((row) => {
+        const distanceRow: Array<TextValue | null> = [];
+        const durationRow: Array<TextValue | null> = [];
+        const trafficRow: Array<TextValue | null> = [];
 
-        row.elements.forEach((element: any) => {
+        row.elements.forEach((element) => {
           if (element.status === "OK") {
             distanceRow.push({ value: element.distance.value, text: element.distance.text });
             durationRow.push({ value: element.duration.value, text: element.duration.text });
+            trafficRow.push(element.duration_in_traffic ? { value: element.duration_in_traffic.value, text: element.duration_in_traffic.text } : null);
           } else {
             distanceRow.push(null);
             durationRow.push(null);
+            trafficRow.push(null);
           }
         });
 
         distances.push(distanceRow);
         durations.push(durationRow);
+        durationsInTraffic.push(trafficRow);
       });
 
       return {
         distances,
         durations,
+        durations_in_traffic: durationsInTraffic.some((row) => row.some((value) => value)) ? durationsInTraffic : undefined,
         origin_addresses: result.origin_addresses,
         destination_addresses: result.destination_addresses,
       };
     } catch (error) {
-      console.error("Error in calculateDistanceMatrix:", error);
-      throw new Error("An error occurred while calculating distance matrix");
+      this.logger.error("Error in calculateDistanceMatrix:", error);
+      throw toMapsError(error, "Distance matrix calculation");
     }
   }
 
-  async getDirections(origin: string, destination: string, mode: "driving" | "walking" | "bicycling" | "transit" = "driving"): Promise<{
-    routes: any[];
-    summary: string;
-    total_distance: { value: number; text: string };
-    total_duration: { value: number; text: string };
-  }> {
+  /**
+   * The area reachable from `center` within a time budget. Travel times to rings of
+   * points around the center are fetched with as few Distance Matrix requests as its
+   * element limits allow, and the boundary is interpolated between the samples.
+   */
+  async getReachability(
+    center: ResolvedLocation,
+    params: ReachabilityParams,
+    options: RouteOptions = {},
+    locale?: LocaleOptions
+  ): Promise<ReachabilityResult> {
+    const mode = params.mode ?? "driving";
+    const budget = params.maxMinutes * 60;
+    const radius = params.maxRadius ?? Math.round(SAMPLING_SPEEDS[mode] * budget);
+    const samples = radialSamples(center, radius, params.directions ?? 16, params.rings ?? 4);
+    const points = samples.flat();
+
     try {
-      const response = await this.client.directions({
-        params: {
-          origin,
-          destination,
-          mode: mode as TravelMode,
-          language: this.defaultLanguage,
-          key: process.env.GOOGLE_MAPS_API_KEY || "",
+      const chunks: (typeof points)[] = [];
+      for (let i = 0; i < points.length; i += MAX_MATRIX_DESTINATIONS) chunks.push(points.slice(i, i + MAX_MATRIX_DESTINATIONS));
+      const matrices = await mapConcurrent(chunks, DEFAULT_BATCH_CONCURRENCY, (chunk) =>
+        this.calculateDistanceMatrix(
+          [`${center.lat},${center.lng}`],
+          chunk.map((point) => `${round6(point.location.lat)},${round6(point.location.lng)}`),
+          mode,
+          options,
+          locale
+        )
+      );
+      // Traffic-aware durations, where Google provides them, are what a departure at that time would take.
+      const durations = matrices.flatMap((matrix) => matrix.durations[0].map((duration, index) => matrix.durations_in_traffic?.[0][index] ?? duration));
+
+      const rings = samples[0].length;
+      const { boundary, limited } = reachableBoundary(
+        center,
+        samples,
+        samples.map((ray, direction) => ray.map((_, ring) => durations[direction * rings + ring]?.value ?? null)),
+        budget
+      );
+      // GeoJSON wants the exterior ring counterclockwise and closed, while the samples run clockwise.
+      const ring = [...boundary].reverse();
+      ring.push(ring[0]);
+      const reachable = durations.map((duration) => duration !== null && duration.value <= budget);
+
+      return {
+        center,
+        mode,
+        max_duration: { value: budget, text: formatDuration(budget) },
+        sampled_radius: radius,
+        area: {
+          type: "Feature",
+          properties: { mode, max_minutes: params.maxMinutes },
+          geometry: { type: "Polygon", coordinates: [ring.map((point) => [round6(point.lng), round6(point.lat)])] },
         },
+        area_km2: Math.round(polygonArea(boundary) / 1e4) / 100,
+        reachable_samples: reachable.filter(Boolean).length,
+        limited_by_radius: limited,
+        samples: points.map((point, index) => ({
+          location: { lat: round6(point.location.lat), lng: round6(point.location.lng) },
+          bearing: round1(point.bearing),
+          distance: Math.round(point.distance),
+          duration: durations[index],
+          reachable: reachable[index],
+        })),
+      };
+    } catch (error) {
+      this.logger.error("Error in getReachability:", error);
+      throw toMapsError(error, "Reachability calculation");
+    }
+  }
+
+  /**
+   * Places matching `keyword` around the participants' midpoint, ranked by the longest
+   * (`minimax`) or total travel time of the participants. All candidates are scored with
+   * a single Distance Matrix request, so fewer are considered the more participants there are.
+   */
+  async findMeetingPlace(
+    params: MeetingPlaceParams,
+    options: RouteOptions = {},
+    locale?: LocaleOptions
+  ): Promise<Omit<MeetingPlaceResult, "places"> & { places: ScoredMeetingPlace[] }> {
+    const mode = params.mode ?? "driving";
+    const objective = params.objective ?? "minimax";
+
+    try {
+      const participants = await mapConcurrent(params.participants, DEFAULT_BATCH_CONCURRENCY, async (input) => {
+        try {
+          return { input, ...(await this.getLocation({ value: input, isCoordinates: toLatLngLiteral(input) !== undefined }, locale)) };
+        } catch (error) {
+          if (error instanceof NoResultsError) throw new NoResultsError(`Participant '${input}' could not be located`, "NOT_FOUND");
+          throw error;
+        }
       });
+      const midpoint = geographicMidpoint(participants);
+      const spread = Math.max(...participants.map((participant) => haversineDistance(midpoint, participant)));
+      const radius = params.radius ?? Math.min(50000, Math.max(1000, Math.round(spread / 4)));
 
-      const result = response.data;
-      if (result.status !== "OK") throw new Error(`Fetching directions failed: ${result.status}`);
-      if (result.routes.length === 0) throw new Error("No route found");
+      const candidates = Math.min(MAX_MEETING_CANDIDATES, Math.floor(MAX_MATRIX_ELEMENTS / participants.length));
+      const { results } = await this.searchNearbyPlaces(
+        { location: midpoint, radius, keyword: params.keyword, openNow: params.openNow, maxResults: candidates },
+        locale
+      );
+      if (results.length === 0) {
+        throw new NoResultsError(`No places matching '${params.keyword}' within ${formatDistance(radius)} of the midpoint; try a larger radius`);
+      }
 
-      const route = result.routes[0];
-      const legs = route.legs[0];
+      const matrix = await this.calculateDistanceMatrix(
+        participants.map((participant) => `${participant.lat},${participant.lng}`),
+        results.map((place) => `${place.geometry.location.lat},${place.geometry.location.lng}`),
+        mode,
+        options,
+        locale
+      );
+
+      const scored: ScoredMeetingPlace[] = [];
+      results.forEach((place, column) => {
+        const travelTimes = participants.map((participant, row) => {
+          const distance = matrix.distances[row][column];
+          const duration = matrix.durations_in_traffic?.[row][column] ?? matrix.durations[row][column];
+          return distance && duration ? { participant: participant.input, distance, duration } : undefined;
+        });
+        if (travelTimes.some((travel) => !travel)) return;
+
+        const seconds = travelTimes.map((travel) => travel!.duration.value);
+        const longest = Math.max(...seconds);
+        const total = seconds.reduce((sum, value) => sum + value, 0);
+        scored.push({
+          place,
+          max_duration: { value: longest, text: formatDuration(longest) },
+          total_duration: { value: total, text: formatDuration(total) },
+          travel_times: travelTimes as ScoredMeetingPlace["travel_times"],
+        });
+      });
+      if (scored.length === 0) throw new NoResultsError("None of the candidate places can be reached by every participant");
+
+      // The other measure breaks ties, e.g. between places with the same longest trip.
+      const [primary, secondary] = objective === "minimax" ? (["max_duration", "total_duration"] as const) : (["total_duration", "max_duration"] as const);
+      scored.sort((a, b) => a[primary].value - b[primary].value || a[secondary].value - b[secondary].value);
 
       return {
-        routes: result.routes,
-        summary: route.summary,
-        total_distance: { value: legs.distance.value, text: legs.distance.text },
-        total_duration: { value: legs.duration.value, text: legs.duration.text },
+        midpoint: { lat: round6(midpoint.lat), lng: round6(midpoint.lng) },
+        participants,
+        objective,
+        places: scored.slice(0, params.maxResults ?? 5),
+        unreachable_candidates: results.length - scored.length,
       };
     } catch (error) {
-      console.error("Error in getDirections:", error);
-      throw new Error("An error occurred while fetching directions");
+      this.logger.error("Error in findMeetingPlace:", error);
+      throw toMapsError(error, "Finding a meeting place");
+    }
+  }
+
+  /**
+   * Travel times and distances between all `locations`, fetched in blocks that stay
+   * within the Distance Matrix limits. Also returns each location's formatted address.
+   */
+  private async travelMatrix(
+    locations: string[],
+    mode: "driving" | "walking" | "bicycling" | "transit",
+    options: RouteOptions,
+    locale?: LocaleOptions
+  ) {
+    const durations = locations.map(() => locations.map(() => Infinity));
+    const distances = locations.map(() => locations.map(() => Infinity));
+    const addresses = [...locations];
+
+    const blocks: Array<{ rows: number; columns: number }> = [];
+    for (let rows = 0; rows < locations.length; rows += MATRIX_BLOCK_SIZE) {
+      for (let columns = 0; columns < locations.length; columns += MATRIX_BLOCK_SIZE) blocks.push({ rows, columns });
     }
+    await mapConcurrent(blocks, DEFAULT_BATCH_CONCURRENCY, async ({ rows, columns }) => {
+      const matrix = await this.calculateDistanceMatrix(
+        locations.slice(rows, rows + MATRIX_BLOCK_SIZE),
+        locations.slice(columns, columns + MATRIX_BLOCK_SIZE),
+        mode,
+        options,
+        locale
+      );
+      matrix.durations.forEach((row, i) =>
+        row.forEach((duration, j) => {
+          const time = matrix.durations_in_traffic?.[i][j] ?? duration;
+          if (time) durations[rows + i][columns + j] = time.value;
+          const distance = matrix.distances[i][j];
+          if (distance) distances[rows + i][columns + j] = distance.value;
+        })
+      );
+      if (columns === 0) matrix.origin_addresses.forEach((address, i) => address && (addresses[rows + i] = address));
+    });
+    // A location is where it is, whatever Google reports for the way there and back.
+    locations.forEach((_, i) => {
+      durations[i][i] = 0;
+      distances[i][i] = 0;
+    });
+    return { durations, distances, addresses };
   }
 
-  async getElevation(locations: Array<{ latitude: number; longitude: number }>): Promise<Array<{ elevation: number; location: { lat: number; lng: number } }>> {
+  /**
+   * Orders many stops for the shortest trip, optionally between a fixed start and end
+   * and within arrival time windows. Travel times between all locations come from the
+   * Distance Matrix API; the order itself is solved locally, see `solveTour`.
+   */
+  async optimizeRoute(params: OptimizeRouteParams, options: RouteOptions = {}, locale?: LocaleOptions): Promise<OptimizedRoute> {
+    if (params.end !== undefined && params.returnToStart) throw new InvalidArgumentError("Specify either end or returnToStart, not both");
+    if (options.arrivalTime !== undefined) throw new InvalidArgumentError("arrivalTime is not supported; use departureTime and arrival time windows");
+    const mode = params.mode ?? "driving";
+    const departureArg = options.departureTime !== undefined ? parseTime(options.departureTime, "departureTime", true) : "now";
+    const departure = departureArg === "now" ? Math.floor(Date.now() / 1000) : departureArg;
+
+    const stops: RouteStop[] = params.stops.map((stop) => (typeof stop === "string" ? { location: stop } : stop));
+    const windows: Array<VisitWindow | undefined> = stops.map((stop, index) => {
+      const bound = (value: string | number | undefined, field: string) => {
+        if (value === undefined) return undefined;
+        const time = parseTime(value, `stops[${index}].${field}`, true);
+        return (time === "now" ? departure : time) - departure;
+      };
+      const window = {
+        earliest: bound(stop.arriveAfter, "arriveAfter"),
+        latest: bound(stop.arriveBefore, "arriveBefore"),
+        service: (stop.serviceMinutes ?? 0) * 60,
+      };
+      if (window.earliest !== undefined && window.latest !== undefined && window.earliest > window.latest) {
+        throw new InvalidArgumentError(`stops[${index}] must not have arriveAfter later than arriveBefore`);
+      }
+      return window;
+    });
+
+    // Stops keep their input indices as nodes; a fixed start and end come after them.
+    const locations = stops.map((stop) => stop.location);
+    const start = params.start !== undefined ? locations.push(params.start) - 1 : undefined;
+    const end = params.end !== undefined ? locations.push(params.end) - 1 : undefined;
+
     try {
-      const formattedLocations = locations.map(loc => ({ lat: loc.latitude, lng: loc.longitude }));
+      const matrix = await this.travelMatrix(locations, mode, options, locale);
+      const problem = { durations: matrix.durations, stops: stops.map((_, index) => index), start, end, roundTrip: params.returnToStart, windows };
+      const order = solveTour(problem);
+      const visits = scheduleTour(problem, order);
+      if (!visits) throw new NoResultsError("No route connects all stops");
 
-      const response = await this.client.elevation({
-        params: {
-          locations: formattedLocations,
-          key: process.env.GOOGLE_MAPS_API_KEY || "",
-        },
+      const iso = (seconds: number) => new Date((departure + seconds) * 1000).toISOString();
+      const units = options.units;
+      let totalDistance = 0;
+      const route: OptimizedStop[] = visits.map((visit, index) => {
+        const previous = index > 0 ? visits[index - 1].node : undefined;
+        const legDuration = previous !== undefined ? matrix.durations[previous][visit.node] : undefined;
+        const distance = previous !== undefined ? matrix.distances[previous][visit.node] : Infinity;
+        const legDistance = Number.isFinite(distance) ? distance : undefined;
+        if (legDistance !== undefined) totalDistance += legDistance;
+        return {
+          stop_index: visit.node < stops.length ? visit.node : undefined,
+          input: locations[visit.node],
+          address: matrix.addresses[visit.node],
+          leg_distance: legDistance !== undefined ? { value: legDistance, text: formatDistance(legDistance, units) } : undefined,
+          leg_duration: legDuration !== undefined ? { value: legDuration, text: formatDuration(legDuration) } : undefined,
+          arrival_time: iso(visit.arrival),
+          departure_time: iso(visit.departure),
+          wait: visit.wait > 0 ? { value: visit.wait, text: formatDuration(visit.wait) } : undefined,
+          late: visit.late > 0 ? { value: visit.late, text: formatDuration(visit.late) } : undefined,
+        };
       });
+      const travel = route.reduce((sum, stop) => sum + (stop.leg_duration?.value ?? 0), 0);
+      const total = visits[visits.length - 1].departure;
+
+      return {
+        mode,
+        order,
+        stops: route,
+        total_distance: { value: totalDistance, text: formatDistance(totalDistance, units) },
+        travel_duration: { value: travel, text: formatDuration(travel) },
+        total_duration: { value: total, text: formatDuration(total) },
+        late_stops: visits.filter((visit) => visit.late > 0).length,
+      };
+    } catch (error) {
+      this.logger.error("Error in optimizeRoute:", error);
+      throw toMapsError(error, "Route optimization");
+    }
+  }
 
-      const result = response.data;
-      if (result.status !== "OK") throw new Error(`Elevation data fetch failed: ${result.status}`);
+  async getDirections(
+    origin: string,
+    destination: string,
+    mode: "driving" | "walking" | "bicycling" | "transit" = "driving",
+    options: DirectionsOptions = {},
+    locale?: LocaleOptions
+  ): Promise<DirectionsResult> {
+    const waypoints = options.waypoints ?? [];
+    const verbosity = options.verbosity ?? "steps";
+    if (waypoints.length > MAX_WAYPOINTS) {
+      throw new InvalidArgumentError(`At most ${MAX_WAYPOINTS} waypoints are supported, got ${waypoints.length}`);
+    }
+    const routeParams = this.routeParams(options);
+
+    try {
+      const result = await this.provider.directions({
+        origin,
+        destination,
+        waypoints: waypoints.length ? waypoints : undefined,
+        optimize: waypoints.length ? options.optimizeWaypoints : undefined,
+        alternatives: options.alternatives,
+        mode: mode as TravelMode,
+        ...routeParams,
+        ...this.locale(locale),
+      });
+
+      if (result.status !== "OK") throw statusError(result.status, result.error_message, "Fetching directions");
+      if (result.routes.length === 0) throw new NoResultsError("No route found");
+
+      const route = result.routes[0];
+      const waypointOrder = waypoints.length ? route.waypoint_order ?? waypoints.map((_, index) => index) : undefined;
+
+      return {
+        ...this.summarizeRoute(route, options.units, verbosity),
+        waypoint_order: waypointOrder,
+        ordered_waypoints: waypointOrder?.map((index) => waypoints[index]),
+        alternatives: options.alternatives
+          ? result.routes.slice(1).map((alternative) => {
+              const { legs, warnings, overview_polyline, copyrights, ...summary } = this.summarizeRoute(alternative, options.units);
+              return summary;
+            })
+          : undefined,
+        geometry: options.format && options.format !== "json" ? exportRoute(route, options.format) : undefined,
+      };
+    } catch (error) {
+      this.logger.error("Error in getDirections:", error);
+      throw toMapsError(error, "Fetching directions");
+    }
+  }
 
-      return result.results.map((item: any, index: number) => ({
-        elevation: item.elevation,
+  /** Elevations for any number of points, split into requests the API accepts. */
+  private async fetchElevations(points: LatLngLiteral[]): Promise<number[]> {
+    const elevations: number[] = [];
+    for (let start = 0; start < points.length; start += MAX_ELEVATION_LOCATIONS) {
+      const result = await this.provider.elevation({ locations: points.slice(start, start + MAX_ELEVATION_LOCATIONS) });
+      if (result.status !== "OK") throw statusError(result.status, result.error_message, "Elevation data fetch");
+      elevations.push(...result.results.map((item) => item.elevation));
+    }
+    return elevations;
+  }
+
+  async getElevation(locations: Array<{ latitude: number; longitude: number }>): Promise<ElevationPoint[]> {
+    try {
+      const formattedLocations = locations.map(loc => ({ lat: loc.latitude, lng: loc.longitude }));
+
+      const elevations = await this.fetchElevations(formattedLocations);
+
+      return elevations.map((elevation, index) => ({
+        elevation,
         location: formattedLocations[index],
       }));
     } catch (error) {
-      console.error("Error in getElevation:", error);
-      throw new Error("An error occurred while fetching elevation data");
+      this.logger.error("Error in getElevation:", error);
+      throw toMapsError(error, "Elevation data fetch");
+    }
+  }
+
+  async getElevationProfile(params: ElevationProfileParams, locale?: LocaleOptions): Promise<ElevationProfile> {
+    const sources = [params.path, params.polyline, params.origin ?? params.destination].filter((source) => source !== undefined);
+    if (sources.length !== 1) {
+      throw new InvalidArgumentError("Provide exactly one of path, polyline or origin/destination");
+    }
+    if ((params.origin === undefined) !== (params.destination === undefined)) {
+      throw new InvalidArgumentError("origin and destination must be given together");
+    }
+    if (params.path && params.path.length < 2) {
+      throw new InvalidArgumentError("path needs at least two points");
+    }
+    const samples = params.samples ?? 100;
+    if (!Number.isInteger(samples) || samples < 2 || samples > MAX_PROFILE_SAMPLES) {
+      throw new InvalidArgumentError(`samples must be an integer between 2 and ${MAX_PROFILE_SAMPLES}`);
+    }
+
+    try {
+      let path: LatLngLiteral[];
+      if (params.polyline !== undefined) {
+        path = decodePolyline(params.polyline);
+      } else if (params.origin !== undefined && params.destination !== undefined) {
+        const result = await this.provider.directions({
+          origin: params.origin,
+          destination: params.destination,
+          mode: (params.mode ?? "walking") as TravelMode,
+          ...this.locale(locale),
+        });
+        if (result.status !== "OK") throw statusError(result.status, result.error_message, "Fetching directions");
+        if (result.routes.length === 0) throw new NoResultsError("No route found");
+        path = routePath(result.routes[0]);
+      } else {
+        path = (params.path ?? []).map((point) => ({ lat: point.latitude, lng: point.longitude }));
+      }
+      if (path.length < 2) throw new InvalidArgumentError("Path has fewer than two points");
+
+      const sampled = resamplePath(path, samples);
+      const elevations = await this.fetchElevations(sampled.map((sample) => sample.location));
+
+      let ascent = 0;
+      let descent = 0;
+      let maxGrade = 0;
+      let minGrade = 0;
+      for (let i = 1; i < sampled.length; i++) {
+        const rise = elevations[i] - elevations[i - 1];
+        const run = sampled[i].distance - sampled[i - 1].distance;
+        if (rise > 0) ascent += rise;
+        else descent -= rise;
+        if (run > 0) {
+          maxGrade = Math.max(maxGrade, (rise / run) * 100);
+          minGrade = Math.min(minGrade, (rise / run) * 100);
+        }
+      }
+      const totalDistance = Math.round(sampled[sampled.length - 1].distance);
+
+      return {
+        total_distance: { value: totalDistance, text: formatDistance(totalDistance) },
+        min_elevation: round1(Math.min(...elevations)),
+        max_elevation: round1(Math.max(...elevations)),
+        total_ascent: round1(ascent),
+        total_descent: round1(descent),
+        max_grade: round1(maxGrade),
+        min_grade: round1(minGrade),
+        samples: sampled.map((sample, index) => ({
+          distance: Math.round(sample.distance),
+          elevation: round1(elevations[index]),
+          location: { lat: round6(sample.location.lat), lng: round6(sample.location.lng) },
+        })),
+      };
+    } catch (error) {
+      this.logger.error("Error in getElevationProfile:", error);
+      throw toMapsError(error, "Building the elevation profile");
     }
   }
-}
\ No newline at end of file
+}
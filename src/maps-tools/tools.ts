@@ -0,0 +1,296 @@
+import {
+  AUTOCOMPLETE_TOOL,
+  BATCH_GEOCODE_TOOL,
+  BATCH_REVERSE_GEOCODE_TOOL,
+  DIRECTIONS_TOOL,
+  DISTANCE_MATRIX_TOOL,
+  ELEVATION_PROFILE_TOOL,
+  ELEVATION_TOOL,
+  GEOCODE_TOOL,
+  GET_PLACE_DETAILS_TOOL,
+  GET_PLACE_PHOTO_TOOL,
+  MEETING_PLACE_TOOL,
+  OPTIMIZE_ROUTE_TOOL,
+  QUERY_AUTOCOMPLETE_TOOL,
+  REACHABILITY_TOOL,
+  REVERSE_GEOCODE_TOOL,
+  SEARCH_NEARBY_TOOL,
+  SEARCH_PLACES_TOOL,
+} from "./mapsTools.js";
+import {
+  renderAutocomplete,
+  renderBatchGeocode,
+  renderBatchReverseGeocode,
+  renderDirections,
+  renderDistanceMatrix,
+  renderElevation,
+  renderElevationProfile,
+  renderGeocode,
+  renderMeetingPlace,
+  renderNearbySearch,
+  renderOptimizedRoute,
+  renderPhotoAttributions,
+  renderPlaceDetails,
+  renderPlaceSearch,
+  renderQueryAutocomplete,
+  renderReachability,
+} from "./render.js";
+import {
+  AutocompleteOptions,
+  DirectionsOptions,
+  ElevationProfileParams,
+  GeocodeOptions,
+  MeetingPlaceParams,
+  OptimizeRouteParams,
+  PlaceDetailsOptions,
+  ReachabilityParams,
+  ReverseGeocodeOptions,
+  RouteOptions,
+} from "./toolclass.js";
+import { defineTool, MapsTool, selectTools, ToolContent, withArgumentDefaults } from "./toolRegistry.js";
+
+type TravelModeArg = "driving" | "walking" | "bicycling" | "transit";
+type LocaleArgs = { language?: string; region?: string };
+type LocationArg = { value: string; isCoordinates: boolean };
+
+/** All tools in the order they are listed to clients. */
+export const MAPS_TOOLS: MapsTool[] = [
+  defineTool({
+    definition: SEARCH_NEARBY_TOOL,
+    errorMessage: "Search failed",
+    handle: (
+      searcher,
+      args: {
+        center: { value: string; isCoordinates: boolean };
+        keyword?: string;
+        radius?: number;
+        openNow?: boolean;
+        minRating?: number;
+        maxResults?: number;
+        rankBy?: "prominence" | "distance";
+        pageToken?: string;
+      } & LocaleArgs
+    ) => searcher.searchNearby(args),
+    format: renderNearbySearch,
+  }),
+
+  defineTool({
+    definition: SEARCH_PLACES_TOOL,
+    errorMessage: "Text search failed",
+    handle: (
+      searcher,
+      args: {
+        query: string;
+        location?: { value: string; isCoordinates: boolean };
+        radius?: number;
+        type?: string;
+        minPrice?: number;
+        maxPrice?: number;
+        pageToken?: string;
+      } & LocaleArgs
+    ) => searcher.searchPlaces(args),
+    format: renderPlaceSearch,
+  }),
+
+  defineTool({
+    definition: AUTOCOMPLETE_TOOL,
+    errorMessage: "Autocomplete failed",
+    handle: (
+      searcher,
+      { input, language, ...options }: { input: string; location?: LocationArg } & Omit<AutocompleteOptions, "location"> & LocaleArgs
+    ) => searcher.autocomplete(input, options, { language }),
+    format: renderAutocomplete,
+  }),
+
+  defineTool({
+    definition: QUERY_AUTOCOMPLETE_TOOL,
+    errorMessage: "Query autocomplete failed",
+    handle: (
+      searcher,
+      { input, language, ...options }: { input: string; location?: LocationArg; radius?: number } & LocaleArgs
+    ) => searcher.queryAutocomplete(input, options, { language }),
+    format: renderQueryAutocomplete,
+  }),
+
+  defineTool({
+    definition: GET_PLACE_DETAILS_TOOL,
+    errorMessage: "Failed to fetch place details",
+    handle: (
+      searcher,
+      { placeId, language, region, ...options }: { placeId: string; openAt?: string | number } & PlaceDetailsOptions & LocaleArgs
+    ) => searcher.getPlaceDetails(placeId, options, { language, region }),
+    format: renderPlaceDetails,
+  }),
+
+  defineTool({
+    definition: GET_PLACE_PHOTO_TOOL,
+    errorMessage: "Failed to fetch the place photo",
+    handle: (searcher, { photoReference, ...options }: { photoReference: string; placeId?: string; maxWidth?: number; maxHeight?: number }) =>
+      searcher.getPlacePhoto(photoReference, options),
+    format: (photo) => [
+      { type: "image", data: photo.data, mimeType: photo.mime_type },
+      { type: "text", text: renderPhotoAttributions(photo) },
+    ],
+    // The image is only sent once, as image content.
+    structuredContent: ({ data, ...metadata }) => metadata,
+  }),
+
+  defineTool({
+    definition: GEOCODE_TOOL,
+    errorMessage: "Geocoding failed",
+    handle: (searcher, { address, language, region, ...options }: { address?: string } & GeocodeOptions & LocaleArgs) =>
+      searcher.geocode(address, options, { language, region }),
+    format: renderGeocode,
+  }),
+
+  defineTool({
+    definition: REVERSE_GEOCODE_TOOL,
+    errorMessage: "Reverse geocoding failed",
+    handle: (
+      searcher,
+      { latitude, longitude, language, ...options }: { latitude: number; longitude: number; language?: string } & ReverseGeocodeOptions
+    ) => searcher.reverseGeocode(latitude, longitude, options, { language }),
+    format: renderGeocode,
+  }),
+
+  defineTool({
+    definition: BATCH_GEOCODE_TOOL,
+    errorMessage: "Batch geocoding failed",
+    handle: (
+      searcher,
+      { addresses, concurrency, language, region, ...options }: { addresses: string[]; concurrency?: number } & GeocodeOptions & LocaleArgs
+    ) => searcher.batchGeocode(addresses, options, concurrency, { language, region }),
+    format: renderBatchGeocode,
+  }),
+
+  defineTool({
+    definition: BATCH_REVERSE_GEOCODE_TOOL,
+    errorMessage: "Batch reverse geocoding failed",
+    handle: (
+      searcher,
+      {
+        locations,
+        concurrency,
+        language,
+        ...options
+      }: { locations: Array<{ latitude: number; longitude: number }>; concurrency?: number; language?: string } & ReverseGeocodeOptions
+    ) => searcher.batchReverseGeocode(locations, options, concurrency, { language }),
+    format: renderBatchReverseGeocode,
+  }),
+
+  defineTool({
+    definition: DISTANCE_MATRIX_TOOL,
+    errorMessage: "Distance matrix calculation failed",
+    handle: (
+      searcher,
+      { origins, destinations, mode, language, region, ...options }: { origins: string[]; destinations: string[]; mode?: TravelModeArg } & LocaleArgs & RouteOptions
+    ) => searcher.calculateDistanceMatrix(origins, destinations, mode || "driving", options, { language, region }),
+    format: renderDistanceMatrix,
+  }),
+
+  defineTool({
+    definition: MEETING_PLACE_TOOL,
+    errorMessage: "Finding a meeting place failed",
+    handle: (
+      searcher,
+      {
+        participants,
+        keyword,
+        mode,
+        objective,
+        radius,
+        openNow,
+        maxResults,
+        language,
+        region,
+        ...options
+      }: MeetingPlaceParams & LocaleArgs & RouteOptions
+    ) => searcher.findMeetingPlace({ participants, keyword, mode, objective, radius, openNow, maxResults }, options, { language, region }),
+    format: renderMeetingPlace,
+  }),
+
+  defineTool({
+    definition: REACHABILITY_TOOL,
+    errorMessage: "Calculating the reachable area failed",
+    handle: (
+      searcher,
+      {
+        center,
+        maxMinutes,
+        mode,
+        directions,
+        rings,
+        maxRadius,
+        language,
+        region,
+        ...options
+      }: { center: LocationArg } & ReachabilityParams & LocaleArgs & RouteOptions
+    ) => searcher.getReachability(center, { maxMinutes, mode, directions, rings, maxRadius }, options, { language, region }),
+    format: renderReachability,
+  }),
+
+  defineTool({
+    definition: DIRECTIONS_TOOL,
+    errorMessage: "Fetching directions failed",
+    handle: (
+      searcher,
+      { origin, destination, mode, language, region, ...options }: { origin: string; destination: string; mode?: TravelModeArg } & LocaleArgs & DirectionsOptions
+    ) => searcher.getDirections(origin, destination, mode || "driving", options, { language, region }),
+    format: (result) => {
+      // The exported geometry goes in its own content block so GPX/KML stay valid XML.
+      const { geometry } = result;
+      const content: ToolContent[] = [{ type: "text", text: renderDirections(result) }];
+      if (geometry) content.push({ type: "text", text: typeof geometry === "string" ? geometry : JSON.stringify(geometry) });
+      return content;
+    },
+  }),
+
+  defineTool({
+    definition: OPTIMIZE_ROUTE_TOOL,
+    errorMessage: "Optimizing the route failed",
+    handle: (searcher, { stops, start, end, returnToStart, mode, language, region, ...options }: OptimizeRouteParams & LocaleArgs & RouteOptions) =>
+      searcher.optimizeRoute({ stops, start, end, returnToStart, mode }, options, { language, region }),
+    format: renderOptimizedRoute,
+  }),
+
+  defineTool({
+    definition: ELEVATION_TOOL,
+    errorMessage: "Elevation data fetching failed",
+    handle: (searcher, { locations }: { locations: Array<{ latitude: number; longitude: number }> }) => searcher.getElevation(locations),
+    format: renderElevation,
+  }),
+
+  defineTool({
+    definition: ELEVATION_PROFILE_TOOL,
+    errorMessage: "Building the elevation profile failed",
+    handle: (searcher, { language, region, ...params }: ElevationProfileParams & LocaleArgs) => searcher.getElevationProfile(params, { language, region }),
+    format: renderElevationProfile,
+  }),
+];
+
+export interface ToolsConfig {
+  /** Allow list of tool names; all tools when missing. */
+  enabled?: string[];
+  /** Deny list applied after `enabled`. */
+  disabled?: string[];
+  /** Argument defaults per tool name, e.g. `{ search_nearby: { radius: 500 } }`. */
+  defaults: Record<string, Record<string, unknown>>;
+}
+
+/**
+ * The enabled tools with their configured argument defaults. `sharedDefaults` apply to
+ * every tool that has an argument of that name, e.g. `units`, unless the tool's own
+ * defaults say otherwise.
+ */
+export function configureTools(config: ToolsConfig, sharedDefaults: Record<string, unknown> = {}): MapsTool[] {
+  const names = MAPS_TOOLS.map((tool) => tool.definition.name);
+  for (const name of Object.keys(config.defaults)) {
+    if (!names.includes(name)) throw new Error(`Unknown tool '${name}' in tool defaults, expected one of ${names.join(", ")}`);
+  }
+
+  return selectTools(MAPS_TOOLS, config).map((tool) => {
+    const properties = tool.definition.inputSchema.properties ?? {};
+    const shared = Object.entries(sharedDefaults).filter(([argument, value]) => value !== undefined && argument in properties);
+    return withArgumentDefaults(tool, { ...Object.fromEntries(shared), ...config.defaults[tool.definition.name] });
+  });
+}
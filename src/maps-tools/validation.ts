@@ -0,0 +1,111 @@
+import { ValidationError } from "./errors.js";
+
+/** The subset of JSON Schema used by the tool definitions in `mapsTools.ts`. */
+export interface JsonSchema {
+  type?: string | string[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  pattern?: string;
+  default?: unknown;
+}
+
+const describe = (value: unknown) => (value === null ? "null" : Array.isArray(value) ? "array" : typeof value);
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+    default:
+      return true;
+  }
+}
+
+/** Checks `value` against `schema`, collecting messages per field path and filling in declared defaults. */
+function check(schema: JsonSchema, value: unknown, path: string, errors: Record<string, string>): unknown {
+  const field = path || "arguments";
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (types.length && !types.some((type) => matchesType(value, type))) {
+    errors[field] = `must be ${types.join(" or ")}, got ${describe(value)}`;
+    return value;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors[field] = `must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}`;
+    return value;
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) errors[field] = `must be at least ${schema.minimum}`;
+    if (schema.maximum !== undefined && value > schema.maximum) errors[field] = `must be at most ${schema.maximum}`;
+    return value;
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors[field] = schema.minLength === 1 ? "must not be empty" : `must be at least ${schema.minLength} characters long`;
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) errors[field] = `must match ${schema.pattern}`;
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors[field] = schema.minItems === 1 ? "must not be empty" : `must have at least ${schema.minItems} items`;
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) errors[field] = `must have at most ${schema.maxItems} items`;
+    const items = schema.items;
+    return items ? value.map((item, index) => check(items, item, `${path}[${index}]`, errors)) : value;
+  }
+
+  if (value && typeof value === "object" && schema.properties) {
+    const result: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+    for (const name of schema.required ?? []) {
+      if (result[name] === undefined) errors[path ? `${path}.${name}` : name] = "is required";
+    }
+    for (const [name, property] of Object.entries(schema.properties)) {
+      const propertyPath = path ? `${path}.${name}` : name;
+      if (result[name] === undefined) {
+        if (property.default !== undefined) result[name] = property.default;
+        continue;
+      }
+      result[name] = check(property, result[name], propertyPath, errors);
+    }
+    return result;
+  }
+
+  return value;
+}
+
+/**
+ * Validates tool arguments against the tool's input schema before anything is sent to
+ * the provider. Returns the arguments with declared defaults applied; throws a
+ * `ValidationError` listing every offending field otherwise.
+ */
+export function validateArguments(schema: JsonSchema, args: Record<string, unknown> | undefined): Record<string, unknown> {
+  const errors: Record<string, string> = {};
+  const result = check(schema, args ?? {}, "", errors) as Record<string, unknown>;
+
+  const fields = Object.keys(errors);
+  if (fields.length) {
+    throw new ValidationError(`Invalid arguments: ${fields.map((field) => `${field} ${errors[field]}`).join("; ")}`, errors);
+  }
+  return result;
+}
@@ -0,0 +1,41 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { CallToolRequestSchema, ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { trackCacheUsage } from "./maps-tools/cache/index.js";
+import { createLogger, Logger } from "./maps-tools/logger.js";
+import { PlacesSearcher } from "./maps-tools/searchPlaces.js";
+import { ToolRegistry } from "./maps-tools/toolRegistry.js";
+
+/**
+ * Creates an MCP server bound to the given searcher. A server instance can only be
+ * connected to one transport, so HTTP mode creates one per session while sharing the
+ * searcher (and with it the provider and its cache).
+ */
+export function createServer(placesSearcher: PlacesSearcher, registry: ToolRegistry, logger: Logger = createLogger()): Server {
+  const server = new Server(
+    {
+      name: "mcp-server/maps_executor",
+      version: "0.0.1",
+      description: "An MCP server providing Google Maps integration",
+    },
+    {
+      capabilities: {
+        tools: {},
+      },
+    }
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: registry.list(),
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+    const startedAt = Date.now();
+    const { value: response, stats } = await trackCacheUsage(() => registry.call(placesSearcher, name, args));
+    logger.debug(`${name} ${response.isError ? "failed" : "succeeded"} in ${Date.now() - startedAt} ms (cache hits: ${stats.hits}, misses: ${stats.misses})`);
+    if (stats.hits + stats.misses === 0) return response;
+    return { ...response, _meta: { cache: stats } };
+  });
+
+  return server;
+}